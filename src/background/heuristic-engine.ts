@@ -0,0 +1,145 @@
+// src/background/heuristic-engine.ts
+// Offline transform engine — scores skeleton nodes against the user profile
+// with the lexical relevance scorer and emits highlight/dim/collapse instructions.
+// Used as its own engine mode and as a fallback when no model is reachable.
+
+import type {
+  PageSkeleton,
+  SkeletonNode,
+  UserProfile,
+  EnhancedUserProfile,
+  TransformResponse,
+  TransformInstruction,
+  ExtensionSettings,
+} from '../types/interfaces.js';
+import { tokenize, buildQueryTerms, scoreNodes, nodeText } from './relevance-scorer.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Words that mark a block as page chrome / promotional noise */
+const NOISE_PATTERNS = [
+  "sponsored", "advertisement", "promoted", "newsletter", "subscribe",
+  "sign up for", "cookie", "trending", "you may also like", "recommended for you",
+  "follow us", "share this",
+];
+
+const HIGHLIGHT_LIMITS = { conservative: 3, balanced: 6, aggressive: 10 } as const;
+const HIGHLIGHT_MIN_RATIO = 0.5;   // Share of the best score a node needs to be highlighted
+const DIMMABLE_TYPES = new Set<SkeletonNode["type"]>(["section", "list", "nav", "form"]);
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function generateLocalTransforms(
+  skeleton: PageSkeleton,
+  profile: UserProfile | EnhancedUserProfile,
+  settings: ExtensionSettings
+): TransformResponse {
+  const queryTerms = buildQueryTerms(profile);
+  const scores = scoreNodes(skeleton.nodes, queryTerms);
+  const bestScore = Math.max(...scores.values(), 0);
+
+  // Which nodes contain a match somewhere in their subtree — never hide those
+  const containsMatch = new Set<string>();
+  const markMatches = (node: SkeletonNode): boolean => {
+    let matched = (scores.get(node.id) ?? 0) > 0;
+    for (const child of node.children) {
+      if (markMatches(child)) matched = true;
+    }
+    if (matched) containsMatch.add(node.id);
+    return matched;
+  };
+  skeleton.nodes.forEach(markMatches);
+
+  const transforms: TransformInstruction[] = [];
+  const { enabledActions, intensity } = settings;
+
+  // 1. Highlights — strongest lexical matches, one per branch
+  const highlighted: SkeletonNode[] = [];
+  if (enabledActions.highlight && bestScore > 0) {
+    const candidates: SkeletonNode[] = [];
+    const collect = (list: SkeletonNode[]): void => {
+      for (const node of list) {
+        if ((scores.get(node.id) ?? 0) >= bestScore * HIGHLIGHT_MIN_RATIO) candidates.push(node);
+        collect(node.children);
+      }
+    };
+    collect(skeleton.nodes);
+    candidates.sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0));
+
+    for (const node of candidates) {
+      if (highlighted.length >= HIGHLIGHT_LIMITS[intensity]) break;
+      // Skip nodes nested inside (or wrapping) an already highlighted node
+      if (highlighted.some(h => isAncestor(h, node) || isAncestor(node, h))) continue;
+      highlighted.push(node);
+      transforms.push({
+        action: "highlight",
+        selector: node.selector,
+        reason: `Matches ${matchedTerms(node, queryTerms).slice(0, 3).join(", ")}`,
+        relevance: Math.round(60 + 40 * ((scores.get(node.id) ?? 0) / bestScore)),
+      });
+    }
+  }
+
+  // 2. Collapse obvious noise blocks; dim unrelated sections (top two levels only)
+  const visitBlocks = (list: SkeletonNode[], depth: number): void => {
+    for (const node of list) {
+      if (!node.selector || containsMatch.has(node.id)) {
+        if (depth < 1) visitBlocks(node.children, depth + 1);
+        continue;
+      }
+      const text = node.textPreview.toLowerCase();
+      if (enabledActions.collapse && NOISE_PATTERNS.some(p => text.includes(p))) {
+        transforms.push({ action: "collapse", selector: node.selector, reason: "Looks like promotional noise", relevance: 10 });
+      } else if (
+        enabledActions.dim &&
+        intensity !== "conservative" &&
+        highlighted.length > 0 &&
+        DIMMABLE_TYPES.has(node.type) &&
+        (node.type !== "nav" || intensity === "aggressive")
+      ) {
+        transforms.push({ action: "dim", selector: node.selector, reason: "Unrelated to your focus", relevance: 15 });
+      } else if (depth < 1) {
+        visitBlocks(node.children, depth + 1);
+      }
+    }
+  };
+  visitBlocks(skeleton.nodes, 0);
+
+  const topTerms = [...queryTerms.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 4)
+    .map(([term]) => term);
+
+  return {
+    transforms: transforms.slice(0, 25),
+    summary: highlighted.length > 0
+      ? `Offline mode: highlighted ${highlighted.length} section${highlighted.length === 1 ? "" : "s"} matching your interests.`
+      : "Offline mode: nothing on this page matched your interests.",
+    inferredIntent: profile.currentFocus || (topTerms.length > 0 ? `Looking for ${topTerms.join(", ")}` : "General browsing"),
+    digest: highlighted.length > 0
+      ? highlighted.slice(0, 3).map(n => n.textPreview).join(" • ")
+      : undefined,
+    source: "local",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isAncestor(ancestor: SkeletonNode, node: SkeletonNode): boolean {
+  for (const child of ancestor.children) {
+    if (child === node || isAncestor(child, node)) return true;
+  }
+  return false;
+}
+
+function matchedTerms(node: SkeletonNode, queryTerms: Map<string, number>): string[] {
+  return [...new Set(tokenize(nodeText(node)))]
+    .filter(t => queryTerms.has(t))
+    .sort((a, b) => (queryTerms.get(b) ?? 0) - (queryTerms.get(a) ?? 0));
+}
@@ -1,12 +1,38 @@
-import type { PageSkeleton, UserProfile, TransformResponse, TransformInstruction, EnhancedUserProfile, SkeletonNode, LinkPreview, ExtensionSettings } from '../types/interfaces.js';
+import type { PageSkeleton, UserProfile, TransformResponse, TransformInstruction, EnhancedUserProfile, SkeletonNode, LinkPreview, ExtensionSettings, PartialTransformUpdate, SiteProfile, PageClassification } from '../types/interfaces.js';
 import { DEFAULT_SETTINGS } from '../types/interfaces.js';
+import { createProvider } from './llm-providers.js';
+import type { LLMProvider, LLMRequestOptions, LLMUsage } from './llm-providers.js';
+import { generateLocalTransforms } from './heuristic-engine.js';
+import { TransformStreamParser } from './stream-parser.js';
+import { guardLLMCall, estimateTokenCount, LLMUnavailableError } from './rate-limiter.js';
+import { recordLLMCall, isDailyCostCapReached } from './usage-tracker.js';
+import type { LLMCallPurpose, LLMCallOutcome } from './usage-tracker.js';
+import { serializeSkeleton, toNodeSelector } from './skeleton-serializer.js';
+import { validateTransforms, recordValidationStats } from './response-validator.js';
+import { resolveTemplate, renderTemplate } from '../shared/prompt-templates.js';
+import { findSiteProfile, applySiteProfile, hostOf, ALL_ACTIONS } from '../shared/site-profiles.js';
+import { classifyPage, renderPageStrategy } from '../shared/page-classifier.js';
+import { excludeLearnedNodes, observeTransforms } from './rule-learner.js';
+import {
+  sanitizeSkeleton,
+  sanitizePageText,
+  createFenceNonce,
+  fence,
+  screenTransforms,
+  isSuspiciousOutput,
+} from './prompt-guard.js';
+
+const MAX_TRANSFORMS = 25;
+const MODEL_LIST_TIMEOUT_MS = 10000;
+/** Links offered to the link-selection pass */
+const MAX_LINK_CANDIDATES = 20;
 
 // ---------------------------------------------------------------------------
 // Settings — loaded from chrome.storage.local, cached in memory
 // ---------------------------------------------------------------------------
 let cachedSettings: ExtensionSettings | null = null;
 
-async function getSettings(): Promise<ExtensionSettings> {
+export async function getSettings(): Promise<ExtensionSettings> {
   if (cachedSettings) return cachedSettings;
   try {
     const stored = await chrome.storage.local.get("extensionSettings");
@@ -21,6 +47,23 @@ async function getSettings(): Promise<ExtensionSettings> {
   return cachedSettings!;
 }
 
+/** Settings as they apply to one page: the matching site profile's overrides merged in */
+export async function getSettingsForUrl(url: string): Promise<{ settings: ExtensionSettings; siteProfile: SiteProfile | null }> {
+  const settings = await getSettings();
+  const siteProfile = findSiteProfile(url, settings.siteProfiles);
+  return { settings: applySiteProfile(settings, siteProfile), siteProfile };
+}
+
+/**
+ * Model IDs offered by a provider, for the popup's model pickers. `overrides`
+ * carries the popup's unsaved provider fields so a key can be checked before saving.
+ */
+export async function listAvailableModels(overrides: Partial<ExtensionSettings>): Promise<string[]> {
+  const provider = createProvider({ ...await getSettings(), ...overrides });
+  const models = await provider.listModels(AbortSignal.timeout(MODEL_LIST_TIMEOUT_MS));
+  return [...new Set(models)].sort();
+}
+
 /** Called by service worker when settings change */
 export function invalidateSettingsCache(): void {
   cachedSettings = null;
@@ -30,13 +73,63 @@ export function invalidateSettingsCache(): void {
 // Public API
 // ---------------------------------------------------------------------------
 
+/**
+ * Run the transform pass. When `onPartial` is given and streaming is enabled,
+ * completed transforms and partial intent/digest text are reported as they arrive;
+ * the returned response is always the fully parsed final answer.
+ * `priorIntent` marks an incremental pass over content added to a page that was
+ * already transformed: the skeleton holds only the new nodes, and the intent the
+ * first pass inferred is given to the model as context.
+ */
 export async function generateTransforms(
   skeleton: PageSkeleton,
-  profile: UserProfile | EnhancedUserProfile
+  profile: UserProfile | EnhancedUserProfile,
+  onPartial?: (update: PartialTransformUpdate) => void,
+  signal?: AbortSignal,
+  priorIntent?: string
 ): Promise<TransformResponse> {
-  const prompt = await buildPrompt(skeleton, profile);
-  const raw = await callGemini(prompt);
-  return await parseResponse(raw);
+  const { settings } = await getSettingsForUrl(skeleton.url);
+  // Classified on the full skeleton — learned-rule exclusion below can strip the telling nodes
+  const classification = classifyPage(skeleton);
+  const pageType = classification.type;
+  console.log(`[Predictive Browser] Page type: ${pageType} (${classification.signals.join(", ") || "no signals"})`);
+  if (settings.engine === "local") {
+    return { ...generateLocalTransforms(skeleton, profile, settings), pageType };
+  }
+
+  // Page text is untrusted — scrub instruction-like phrasing before it reaches the prompt
+  const { skeleton: safeSkeleton, flaggedNodeIds } = sanitizeSkeleton(skeleton);
+
+  // Elements learned rules already handle (applied by the content script) stay out of the prompt
+  const { skeleton: remainder, covered } = await excludeLearnedNodes(safeSkeleton);
+  if (covered > 0 && remainder.nodes.length === 0) {
+    return { transforms: [], summary: "Handled by learned site rules.", inferredIntent: "General browsing", source: "local", pageType };
+  }
+
+  let raw: string;
+  let templateVersion: string;
+  try {
+    const built = await buildPrompt(remainder, profile, classification, priorIntent);
+    const prompt = built.prompt;
+    templateVersion = built.templateVersion;
+    raw = onPartial && settings.streaming
+      ? await streamTransformCall(prompt, remainder, flaggedNodeIds, onPartial, signal)
+      : await callLLM(prompt, "transform", skeleton.url, { json: true, signal });
+  } catch (e) {
+    // No key, unreachable server, API error — keep the page useful offline.
+    // Past the daily cost cap the LLM is off for the day, fallback setting or not.
+    // A cancelled tab gets nothing: the page that asked is gone.
+    if (signal?.aborted || !(settings.localFallback || await isDailyCostCapReached(settings))) throw e;
+    console.warn("[Predictive Browser] LLM unavailable, using offline engine:", e);
+    return { ...generateLocalTransforms(skeleton, profile, settings), pageType };
+  }
+  const result = await parseResponse(raw, remainder, flaggedNodeIds);
+  // Learn from first passes only — every delta batch of one page would otherwise count as a page of its own
+  if (result.source === "llm" && priorIntent === undefined) {
+    observeTransforms(remainder, result.transforms).catch(e =>
+      console.warn("[Predictive Browser] Rule learner failed:", e));
+  }
+  return { ...result, templateVersion, pageType };
 }
 
 // ---------------------------------------------------------------------------
@@ -47,7 +140,12 @@ function isEnhancedProfile(p: UserProfile | EnhancedUserProfile): p is EnhancedU
   return 'topicModel' in p;
 }
 
-async function buildPrompt(skeleton: PageSkeleton, profile: UserProfile | EnhancedUserProfile): Promise<string> {
+async function buildPrompt(
+  skeleton: PageSkeleton,
+  profile: UserProfile | EnhancedUserProfile,
+  classification: PageClassification,
+  priorIntent?: string
+): Promise<{ prompt: string; templateVersion: string }> {
   const sections: string[] = [];
 
   // 1. Current focus (always included if set)
@@ -87,7 +185,9 @@ async function buildPrompt(skeleton: PageSkeleton, profile: UserProfile | Enhanc
 
     // 6. Open tab titles
     if (profile.openTabTitles.length > 0) {
-      sections.push(`OTHER OPEN TABS:\n${profile.openTabTitles.map(t => `- ${t}`).join('\n')}`);
+      // Tab titles are set by arbitrary pages — scrub them like page text
+      const titles = profile.openTabTitles.map(t => `- ${sanitizePageText(t).text}`).join('\n');
+      sections.push(`OTHER OPEN TABS:\n${titles}`);
     }
 
     // 7. Transform feedback — engagement rates
@@ -120,10 +220,28 @@ async function buildPrompt(skeleton: PageSkeleton, profile: UserProfile | Enhanc
     }
   }
 
+  // Build intensity and enabled actions guidance from settings — site profile overrides included
+  const { settings, siteProfile } = await getSettingsForUrl(skeleton.url);
+
+  // 9. The user's own instructions for this site
+  if (siteProfile?.instructions.trim()) {
+    sections.push(`SITE INSTRUCTIONS (from the user, for ${siteProfile.hostPattern}):\n${siteProfile.instructions.trim()}`);
+  }
+
+  // 10. Incremental pass — the page was already transformed; these nodes are new
+  if (priorIntent !== undefined) {
+    sections.push(`NEW CONTENT ON AN ALREADY-TRANSFORMED PAGE:\nThe skeleton below holds only content that loaded after the first pass (infinite scroll, lazy comments). Earlier on this page you inferred the user's intent as: "${sanitizePageText(priorIntent).text}". Stay consistent with it and only transform these nodes.`);
+  }
+
   const profileContext = sections.join('\n\n');
 
-  // Build intensity and enabled actions guidance from settings
-  const settings = await getSettings();
+  const outline = serializeSkeleton(skeleton, profile, settings.skeletonTokenBudget);
+  if (outline.keptNodes < outline.totalNodes) {
+    console.log(`[Predictive Browser] Skeleton pruned to ${outline.keptNodes}/${outline.totalNodes} nodes (~${outline.tokens} tokens)`);
+  }
+  const prunedNote = outline.keptNodes < outline.totalNodes
+    ? ` — trimmed to the ${outline.keptNodes} most relevant of ${outline.totalNodes} nodes`
+    : "";
   const allActions = ["highlight", "collapse", "reorder", "annotate", "dim"] as const;
   const enabledActions = allActions.filter(a => settings.enabledActions[a]);
   const actionsStr = enabledActions.map(a => `"${a}"`).join(", ");
@@ -140,83 +258,171 @@ async function buildPrompt(skeleton: PageSkeleton, profile: UserProfile | Enhanc
       intensityRule = "Be conservative: if unsure, don't transform. A wrong transform is worse than no transform. Return 5-15 transforms max. Quality over quantity.";
   }
 
-  return `You are an intelligent web page optimizer. Given a user's intent profile and a semantic skeleton of a web page, your job is to return surgical DOM transform instructions that reshape the page to surface what's most relevant to the user.
-
-USER PROFILE:
-${profileContext}
-
-PAGE: ${skeleton.title} (${skeleton.url})
-${skeleton.metaDescription ? `Description: ${skeleton.metaDescription}` : ""}
-
-PAGE SKELETON:
-${JSON.stringify(skeleton.nodes, null, 0)}
-
-INSTRUCTIONS:
-Analyze the page structure and the user's intent. Return a JSON object with:
-1. "transforms": an array of transform instructions. Each has:
-   - "action": one of ${actionsStr}
-   - "selector": the CSS selector from the skeleton (copy exactly)
-   - "reason": brief explanation (5-10 words)
-   - "relevance": 0-100 score
-   - "position": (only for reorder) "top" or "above:{selector}"
-   - "annotation": (only for annotate) short text badge
-2. "summary": one sentence describing what you changed
-3. "inferredIntent": one sentence describing what you think the user wants
-
-RULES:
-- ONLY use these actions: ${actionsStr}. Do NOT use any other action types.
-- Use "highlight" for elements directly relevant to the user's intent
-- Use "collapse" for sections that are noise (e.g., unrelated news, ads, promotional content)
-- Use "reorder" sparingly — only move things to "top" if they're clearly the most important
-- Use "annotate" to add helpful context (e.g., "★ Relevant to your job search")
-- Use "dim" for low-relevance but not totally irrelevant content
-- ${intensityRule}
-- Only use selectors that exist in the skeleton. Never invent selectors.
-
-Return ONLY valid JSON. No markdown, no backticks, no explanation outside the JSON.`;
+  // Page-derived content goes inside fences the page can't close (nonce differs per prompt)
+  const nonce = createFenceNonce();
+  const template = resolveTemplate("transform", skeleton.url, settings.promptTemplates);
+  const prompt = renderTemplate(template.body, {
+    profileContext,
+    pageTitle: fence("page-title", skeleton.title, nonce),
+    pageUrl: skeleton.url,
+    pageDescription: skeleton.metaDescription ? `Description:\n${fence("meta-description", skeleton.metaDescription, nonce)}` : "",
+    skeleton: fence("skeleton", outline.text, nonce),
+    skeletonNote: prunedNote,
+    actions: actionsStr,
+    intensityRule,
+    pageStrategy: renderPageStrategy(classification, enabledActions),
+  });
+  return { prompt, templateVersion: template.version };
 }
 
 // ---------------------------------------------------------------------------
-// Gemini API call
+// LLM call — routed through the provider selected in settings
 // ---------------------------------------------------------------------------
 
-async function callGemini(prompt: string): Promise<string> {
+async function callLLM(
+  prompt: string,
+  purpose: LLMCallPurpose,
+  pageUrl: string,
+  options: LLMRequestOptions = { json: true }
+): Promise<string> {
   const settings = await getSettings();
-  if (!settings.apiKey) {
-    throw new Error("Please set your Gemini API key in the extension settings (click the extension icon).");
+  // Only the transform pass needs the main model — link work runs on the cheaper one
+  const provider = createProvider(settings, purpose === "transform" ? "main" : "aux");
+  return trackedCall(provider, prompt, purpose, pageUrl, options.signal, (onUsage) => guardLLMCall(
+    settings,
+    estimateTokenCount(prompt),
+    () => provider.generate(prompt, { ...options, onUsage }),
+    estimateTokenCount,
+    options.signal
+  ));
+}
+
+/**
+ * Run one guarded call and record its usage whatever the outcome. Token counts
+ * come from the provider when it reports them; otherwise they're estimated
+ * (a cancelled call is still billed for the prompt it sent).
+ */
+async function trackedCall(
+  provider: LLMProvider,
+  prompt: string,
+  purpose: LLMCallPurpose,
+  pageUrl: string,
+  signal: AbortSignal | undefined,
+  run: (onUsage: (usage: LLMUsage) => void) => Promise<string>
+): Promise<string> {
+  const started = Date.now();
+  let usage: LLMUsage | null = null;
+  let text = "";
+  let outcome: LLMCallOutcome = "ok";
+  try {
+    text = await run((reported) => { usage = reported; });
+    return text;
+  } catch (e) {
+    outcome = signal?.aborted ? "cancelled" : e instanceof LLMUnavailableError ? "refused" : "error";
+    throw e;
+  } finally {
+    const reported = usage as LLMUsage | null;
+    const estimated: LLMUsage = {
+      promptTokens: outcome === "ok" || outcome === "cancelled" ? estimateTokenCount(prompt) : 0,
+      outputTokens: estimateTokenCount(text),
+    };
+    void recordLLMCall({
+      at: started,
+      purpose,
+      provider: provider.type,
+      model: provider.model,
+      domain: hostOf(pageUrl),
+      ...(reported ?? estimated),
+      estimated: reported === null,
+      latencyMs: Date.now() - started,
+      outcome,
+    });
   }
+}
 
-  const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${settings.model}:generateContent`;
-
-  const response = await fetch(`${apiUrl}?key=${settings.apiKey}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.2,       // Low temp for reliable structured output
-        maxOutputTokens: 2048,
-        responseMimeType: "application/json"  // Gemini's JSON mode
+/**
+ * Streamed variant of the transform call: forwards each transform as soon as
+ * it is complete, plus the growing intent/digest text. Returns the full raw
+ * answer so the regular parser has the final say.
+ */
+async function streamTransformCall(
+  prompt: string,
+  skeleton: PageSkeleton,
+  flaggedNodeIds: Set<string>,
+  onPartial: (update: PartialTransformUpdate) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const { settings } = await getSettingsForUrl(skeleton.url);
+  const provider = createProvider(settings);
+
+  // A retry restarts the stream from scratch; re-sent transforms are skipped by the page
+  const streamOnce = async (onUsage: (usage: LLMUsage) => void): Promise<string> => {
+    const parser = new TransformStreamParser();
+    const emitted: TransformInstruction[] = [];
+
+    for await (const chunk of provider.stream(prompt, { json: true, signal, onUsage })) {
+      const update = parser.push(chunk);
+      const wellFormed = (update.transforms as unknown[])
+        .map(normalizeNodeRefs)
+        .filter((t): t is TransformInstruction => isValidTransform(t) && settings.enabledActions[t.action]);
+      // Earlier batches are already on the page — later contradictions lose to them
+      const validated = validateTransforms(wellFormed, skeleton, emitted).transforms;
+      const transforms = screenTransforms(validated, flaggedNodeIds).transforms
+        .slice(0, Math.max(0, MAX_TRANSFORMS - emitted.length));
+      emitted.push(...transforms);
+
+      // Partial text that already looks like an echoed injection is held back for the final check
+      const inferredIntent = isSuspiciousOutput(update.inferredIntent) ? undefined : update.inferredIntent;
+      const digest = isSuspiciousOutput(update.digest) ? undefined : update.digest;
+      if (transforms.length > 0 || inferredIntent !== undefined || digest !== undefined) {
+        onPartial({ transforms, inferredIntent, digest });
       }
-    })
-  });
+    }
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Gemini API error ${response.status}: ${error}`);
-  }
+    return parser.text;
+  };
 
-  const data = await response.json();
-  return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  return trackedCall(provider, prompt, "transform", skeleton.url, signal, (onUsage) =>
+    guardLLMCall(settings, estimateTokenCount(prompt), () => streamOnce(onUsage), estimateTokenCount, signal));
 }
 
 // ---------------------------------------------------------------------------
 // Response Parsing — defensive, never crashes
 // ---------------------------------------------------------------------------
 
-async function parseResponse(raw: string): Promise<TransformResponse> {
+/** Expand bare node ids ("node-12") in selector / reorder position into full selectors */
+function normalizeNodeRefs(t: unknown): unknown {
+  if (typeof t !== "object" || t === null) return t;
+  const transform = { ...(t as Record<string, unknown>) };
+  if (typeof transform["selector"] === "string") {
+    transform["selector"] = toNodeSelector(transform["selector"]);
+  }
+  const position = transform["position"];
+  if (typeof position === "string" && position.startsWith("above:")) {
+    transform["position"] = `above:${toNodeSelector(position.slice("above:".length))}`;
+  }
+  return transform;
+}
+
+/** Shape check for a single transform */
+function isValidTransform(t: unknown): t is TransformInstruction {
+  if (typeof t !== "object" || t === null) return false;
+  const transform = t as Record<string, unknown>;
+  return (
+    (ALL_ACTIONS as unknown[]).includes(transform["action"]) &&
+    typeof transform["selector"] === "string" &&
+    (transform["selector"] as string).length > 0 &&
+    typeof transform["relevance"] === "number"
+  );
+}
+
+async function parseResponse(
+  raw: string,
+  skeleton: PageSkeleton,
+  flaggedNodeIds: Set<string>
+): Promise<TransformResponse> {
   try {
-    // Strip markdown code fences if present (Gemini sometimes adds them despite JSON mode)
+    // Strip markdown code fences if present (models sometimes add them despite JSON mode)
     const cleaned = raw.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
     const parsed = JSON.parse(cleaned);
 
@@ -225,34 +431,38 @@ async function parseResponse(raw: string): Promise<TransformResponse> {
       throw new Error("Missing transforms array");
     }
 
-    // Filter by enabled actions from settings
-    const settings = await getSettings();
-    const enabledActions = (["highlight", "collapse", "reorder", "annotate", "dim"] as const)
-      .filter(a => settings.enabledActions[a]);
-
     // Validate each transform — drop malformed entries rather than crashing
-    const validTransforms: TransformInstruction[] = parsed.transforms.filter((t: unknown) => {
-      if (typeof t !== "object" || t === null) return false;
-      const transform = t as Record<string, unknown>;
-      return (
-        enabledActions.includes(transform["action"] as typeof enabledActions[number]) &&
-        typeof transform["selector"] === "string" &&
-        (transform["selector"] as string).length > 0 &&
-        typeof transform["relevance"] === "number"
-      );
-    });
+    const { settings } = await getSettingsForUrl(skeleton.url);
+    const wellFormed: TransformInstruction[] = parsed.transforms
+      .map(normalizeNodeRefs)
+      .filter(isValidTransform);
+    // Actions the user turned off are dropped too, but counted apart from model mistakes
+    const enabled = wellFormed.filter(t => settings.enabledActions[t.action]);
+
+    // Then check them against the page itself — drop hallucinated selectors and conflicts
+    const { transforms: validated, report } = validateTransforms(enabled, skeleton);
+    report.received = parsed.transforms.length;
+    report.rejected.malformed = parsed.transforms.length - wellFormed.length;
+    report.rejected.disabled_action = wellFormed.length - enabled.length;
+
+    // Finally drop anything that echoes instructions injected by the page
+    const { transforms: validTransforms, dropped } = screenTransforms(validated, flaggedNodeIds);
+    report.rejected.suspicious = dropped;
+    report.accepted = validTransforms.length;
+    await recordValidationStats(skeleton.url, report);
 
     return {
-      transforms: validTransforms.slice(0, 25), // Cap at 25
-      summary: typeof parsed.summary === "string" && parsed.summary.length > 0
+      transforms: validTransforms.slice(0, MAX_TRANSFORMS),
+      summary: typeof parsed.summary === "string" && parsed.summary.length > 0 && !isSuspiciousOutput(parsed.summary)
         ? parsed.summary
         : "Page reshaped based on your interests.",
-      inferredIntent: typeof parsed.inferredIntent === "string" && parsed.inferredIntent.length > 0
+      inferredIntent: typeof parsed.inferredIntent === "string" && parsed.inferredIntent.length > 0 && !isSuspiciousOutput(parsed.inferredIntent)
         ? parsed.inferredIntent
         : "General browsing",
-      digest: typeof parsed.digest === "string" && parsed.digest.length > 0
+      digest: typeof parsed.digest === "string" && parsed.digest.length > 0 && !isSuspiciousOutput(parsed.digest)
         ? parsed.digest
-        : undefined
+        : undefined,
+      source: "llm"
     };
   } catch (e) {
     console.error("[Predictive Browser] Failed to parse LLM response:", e, raw);
@@ -270,14 +480,15 @@ async function parseResponse(raw: string): Promise<TransformResponse> {
 // ---------------------------------------------------------------------------
 
 /**
- * Collect all link nodes from the skeleton, filter invalid ones, dedupe, cap at 20.
- * Ask Gemini to pick the top 5 most relevant for this user.
+ * Collect all link nodes from the skeleton, filter invalid ones, dedupe, and keep
+ * the 20 with the best local relevance score. Ask the model to pick the top 5.
  */
 async function evaluateLinks(
   skeleton: PageSkeleton,
-  profile: UserProfile | EnhancedUserProfile
+  profile: UserProfile | EnhancedUserProfile,
+  signal?: AbortSignal
 ): Promise<{ href: string; selector: string }[]> {
-  const links: { href: string; selector: string }[] = [];
+  const links: { href: string; selector: string; score: number }[] = [];
   const seen = new Set<string>();
 
   function walk(nodes: SkeletonNode[]): void {
@@ -290,7 +501,7 @@ async function evaluateLinks(
         !seen.has(node.href)
       ) {
         seen.add(node.href);
-        links.push({ href: node.href, selector: node.selector });
+        links.push({ href: node.href, selector: node.selector, score: node.localScore ?? 0 });
       }
       if (node.children.length > 0) walk(node.children);
     }
@@ -299,31 +510,30 @@ async function evaluateLinks(
 
   if (links.length === 0) return [];
 
-  const capped = links.slice(0, 20);
+  // Best lexical matches first (stable, so DOM order breaks ties and stands when nothing matches)
+  const capped = links
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_LINK_CANDIDATES);
 
+  const { settings, siteProfile } = await getSettingsForUrl(skeleton.url);
   const profileContext = [
     profile.currentFocus && `Current focus: ${profile.currentFocus}`,
     profile.interests.length > 0 && `Interests: ${profile.interests.join(", ")}`,
-    profile.seedContext
+    profile.seedContext,
+    siteProfile?.instructions.trim() && `Instructions for this site: ${siteProfile.instructions.trim()}`
   ].filter(Boolean).join("\n");
 
-  const prompt = `You are a link relevance evaluator. Given a user profile and a list of links from a web page, pick up to 5 links that are MOST relevant and interesting for this user.
-
-USER PROFILE:
-${profileContext}
-
-PAGE: ${skeleton.title} (${skeleton.url})
-
-LINKS:
-${JSON.stringify(capped.map(l => ({ href: l.href, selector: l.selector })), null, 0)}
-
-Return a JSON object with:
-- "selected": array of objects with "href" and "selector" fields (up to 5, copied exactly from the input)
-
-Only pick links that would genuinely help or interest this user. If none are relevant, return an empty array.
-Return ONLY valid JSON. No markdown, no backticks.`;
+  // The caller hands over the raw skeleton — the title is page text like any other
+  const nonce = createFenceNonce();
+  const template = resolveTemplate("linkSelect", skeleton.url, settings.promptTemplates);
+  const prompt = renderTemplate(template.body, {
+    profileContext,
+    pageTitle: fence("page-title", sanitizePageText(skeleton.title).text, nonce),
+    pageUrl: skeleton.url,
+    links: fence("links", JSON.stringify(capped.map(l => ({ href: l.href, selector: l.selector })), null, 0), nonce),
+  });
 
-  const raw = await callGemini(prompt);
+  const raw = await callLLM(prompt, "linkSelect", skeleton.url, { json: true, signal });
   try {
     const cleaned = raw.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
     const parsed = JSON.parse(cleaned);
@@ -343,18 +553,26 @@ Return ONLY valid JSON. No markdown, no backticks.`;
 
 /**
  * Fetch up to 5 URLs in parallel (5s timeout each), extract title + first ~2000 chars,
- * then send ALL to Gemini in a single batched call for summaries.
+ * then send ALL to the model in a single batched call for summaries.
+ * `pageUrl` is the page the links came from — it picks any per-domain template override.
  */
 async function fetchAndSummarize(
-  urls: string[]
+  urls: string[],
+  pageUrl: string,
+  signal?: AbortSignal
 ): Promise<{ href: string; title: string; summary: string }[]> {
   const fetched = await Promise.all(
     urls.map(async (url) => {
       try {
         const controller = new AbortController();
         const timeout = setTimeout(() => controller.abort(), 5000);
-        const resp = await fetch(url, { signal: controller.signal });
-        clearTimeout(timeout);
+        // Leaving the page aborts the fetch as well as the timeout does
+        const onAbort = (): void => controller.abort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+        const resp = await fetch(url, { signal: controller.signal }).finally(() => {
+          clearTimeout(timeout);
+          signal?.removeEventListener("abort", onAbort);
+        });
         const html = await resp.text();
 
         const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
@@ -368,7 +586,8 @@ async function fetchAndSummarize(
           .trim()
           .slice(0, 2000);
 
-        return { href: url, title, text };
+        // Fetched pages are untrusted — their text ends up in a prompt and their title in a badge
+        return { href: url, title: sanitizePageText(title).text, text: sanitizePageText(text).text };
       } catch {
         console.warn("[Predictive Browser] Failed to fetch:", url);
         return null;
@@ -376,20 +595,20 @@ async function fetchAndSummarize(
     })
   );
 
+  signal?.throwIfAborted();
   const successful = fetched.filter((f): f is NonNullable<typeof f> => f !== null);
   if (successful.length === 0) return [];
 
-  const prompt = `Summarize each of the following web pages in 1-2 sentences. Focus on what the page is about and why someone might find it useful.
-
-PAGES:
-${successful.map((p, i) => `[${i + 1}] URL: ${p.href}\nTitle: ${p.title}\nContent: ${p.text}`).join("\n\n")}
-
-Return a JSON object with:
-- "summaries": array of objects with "href" and "summary" fields, in the same order as the input
-
-Return ONLY valid JSON. No markdown, no backticks.`;
+  const settings = await getSettings();
+  const nonce = createFenceNonce();
+  const template = resolveTemplate("linkSummary", pageUrl, settings.promptTemplates);
+  const prompt = renderTemplate(template.body, {
+    pages: successful
+      .map((p, i) => fence(`page-${i + 1}`, `URL: ${p.href}\nTitle: ${p.title}\nContent: ${p.text}`, nonce))
+      .join("\n\n"),
+  });
 
-  const raw = await callGemini(prompt);
+  const raw = await callLLM(prompt, "linkSummary", pageUrl, { json: true, signal });
   try {
     const cleaned = raw.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
     const parsed = JSON.parse(cleaned);
@@ -398,7 +617,9 @@ Return ONLY valid JSON. No markdown, no backticks.`;
       .filter((s: unknown) => {
         if (typeof s !== "object" || s === null) return false;
         const item = s as Record<string, unknown>;
-        return typeof item.href === "string" && typeof item.summary === "string";
+        return typeof item.href === "string" && typeof item.summary === "string" &&
+          // Summaries become badges on the page — drop any that echo the fetched page's instructions
+          !isSuspiciousOutput(item.summary);
       })
       .map((s: { href: string; summary: string }) => ({
         href: s.href,
@@ -416,16 +637,22 @@ Return ONLY valid JSON. No markdown, no backticks.`;
  */
 export async function generateLinkPreviews(
   skeleton: PageSkeleton,
-  profile: UserProfile | EnhancedUserProfile
+  profile: UserProfile | EnhancedUserProfile,
+  signal?: AbortSignal
 ): Promise<{ previews: LinkPreview[]; transforms: TransformInstruction[] }> {
+  const settings = await getSettings();
+  if (settings.engine === "local") {
+    return { previews: [], transforms: [] };
+  }
+
   console.log("[Predictive Browser] Starting link preview second pass...");
 
-  const topLinks = await evaluateLinks(skeleton, profile);
+  const topLinks = await evaluateLinks(skeleton, profile, signal);
   if (topLinks.length === 0) {
     console.log("[Predictive Browser] No relevant links found for preview.");
     return { previews: [], transforms: [] };
   }
-  console.log("[Predictive Browser] Gemini selected", topLinks.length, "links for preview");
+  console.log("[Predictive Browser] Model selected", topLinks.length, "links for preview");
 
   // Resolve relative URLs against the page URL
   const resolvedLinks = topLinks.map(l => ({
@@ -433,7 +660,7 @@ export async function generateLinkPreviews(
     href: new URL(l.href, skeleton.url).href
   }));
 
-  const summaries = await fetchAndSummarize(resolvedLinks.map(l => l.href));
+  const summaries = await fetchAndSummarize(resolvedLinks.map(l => l.href), skeleton.url, signal);
   console.log("[Predictive Browser] Fetched and summarized", summaries.length, "pages");
 
   const previews: LinkPreview[] = [];
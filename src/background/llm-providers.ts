@@ -0,0 +1,424 @@
+// src/background/llm-providers.ts
+// Provider abstraction over the LLM backends the engine can talk to:
+// Google Gemini, any OpenAI-compatible chat endpoint (OpenAI, vLLM,
+// llama.cpp server, Ollama) and Anthropic Messages.
+
+import type { ExtensionSettings, LLMProviderType } from '../types/interfaces.js';
+
+// ---------------------------------------------------------------------------
+// Provider Interface
+// ---------------------------------------------------------------------------
+
+export interface LLMRequestOptions {
+  /** Ask the backend for a JSON-only answer where it supports that */
+  json?: boolean;
+  /** Aborts the HTTP request (and an in-progress stream) when the tab moves on */
+  signal?: AbortSignal;
+  /** Receives the token counts the backend reports, once known (end of stream for streamed calls) */
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+/** Token counts as reported by the provider — not estimates */
+export interface LLMUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  readonly model: string;
+  /** Send a single-turn prompt and return the raw text of the answer */
+  generate(prompt: string, options?: LLMRequestOptions): Promise<string>;
+  /** Same request, streamed — yields text deltas as the model produces them */
+  stream(prompt: string, options?: LLMRequestOptions): AsyncGenerator<string>;
+  /** Model IDs the backend offers for text generation */
+  listModels(signal?: AbortSignal): Promise<string[]>;
+}
+
+/** Sampling settings sent with every request */
+export interface GenerationConfig {
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+/** Which pass a provider is built for — "aux" is the cheaper link selection / summary work */
+export type ModelRole = "main" | "aux";
+
+/** Non-OK HTTP answer from a provider — carries what the retry layer needs */
+export class LLMHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    /** Parsed Retry-After header, in milliseconds */
+    readonly retryAfterMs: number | null
+  ) {
+    super(message);
+    this.name = "LLMHttpError";
+  }
+}
+
+/** Build an LLMHttpError from a failed response, reading its body and Retry-After header */
+async function httpError(label: string, response: Response): Promise<LLMHttpError> {
+  const body = await response.text();
+  return new LLMHttpError(`${label} API error ${response.status}: ${body}`, response.status, parseRetryAfter(response));
+}
+
+function parseRetryAfter(response: Response): number | null {
+  const header = response.headers.get("retry-after");
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+const GENERATION_DEFAULTS: GenerationConfig = {
+  temperature: 0.2,       // Low temp for reliable structured output
+  maxOutputTokens: 2048,
+};
+const MAX_TEMPERATURE = 2;
+const MAX_OUTPUT_TOKENS = 65536;
+
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_MODELS_URL = "https://api.anthropic.com/v1/models";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// ---------------------------------------------------------------------------
+// Server-Sent Events — all three backends stream over SSE
+// ---------------------------------------------------------------------------
+
+/** Yield the data payload of each SSE event in a streaming response body */
+async function* readSSE(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; keep the trailing partial event
+      const events = pending.split(/\r?\n\r?\n/);
+      pending = events.pop() ?? "";
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith("data:"))
+          .map(line => line.slice(5).trimStart())
+          .join("\n");
+        if (data) yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEvent(data: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Gemini (generativelanguage.googleapis.com)
+// ---------------------------------------------------------------------------
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+}
+
+function reportGeminiUsage(usage: GeminiUsageMetadata | undefined, options: LLMRequestOptions): void {
+  if (!usage) return;
+  options.onUsage?.({ promptTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 });
+}
+
+class GeminiProvider implements LLMProvider {
+  readonly type = "gemini" as const;
+
+  constructor(private apiKey: string, readonly model: string, private config: GenerationConfig) {}
+
+  async generate(prompt: string, options: LLMRequestOptions = {}): Promise<string> {
+    const response = await this.request("generateContent", "", prompt, options);
+    const data = await response.json();
+    reportGeminiUsage(data.usageMetadata, options);
+    return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  }
+
+  async *stream(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const response = await this.request("streamGenerateContent", "&alt=sse", prompt, options);
+    // Every chunk carries running totals — the last one is final
+    let usage: GeminiUsageMetadata | undefined;
+    for await (const data of readSSE(response)) {
+      const event = parseEvent(data) as {
+        candidates?: { content?: { parts?: { text?: string }[] } }[];
+        usageMetadata?: GeminiUsageMetadata;
+      } | null;
+      usage = event?.usageMetadata ?? usage;
+      const text = event?.candidates?.[0]?.content?.parts?.map(p => p.text ?? "").join("");
+      if (text) yield text;
+    }
+    reportGeminiUsage(usage, options);
+  }
+
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const response = await fetch(`${GEMINI_API_URL}?key=${this.apiKey}&pageSize=1000`, { signal });
+    if (!response.ok) throw await httpError("Gemini", response);
+    const data: { models?: { name: string; supportedGenerationMethods?: string[] }[] } = await response.json();
+    return (data.models ?? [])
+      .filter(m => m.supportedGenerationMethods?.includes("generateContent"))
+      .map(m => m.name.replace(/^models\//, ""));
+  }
+
+  private async request(method: string, query: string, prompt: string, options: LLMRequestOptions): Promise<Response> {
+    const apiUrl = `${GEMINI_API_URL}/${encodeURIComponent(this.model)}:${method}`;
+
+    const response = await fetch(`${apiUrl}?key=${this.apiKey}${query}`, {
+      method: "POST",
+      signal: options.signal,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: this.config.temperature,
+          maxOutputTokens: this.config.maxOutputTokens,
+          ...(options.json ? { responseMimeType: "application/json" } : {})  // Gemini's JSON mode
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw await httpError("Gemini", response);
+    }
+    return response;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible (/chat/completions) — also vLLM, llama.cpp, Ollama
+// ---------------------------------------------------------------------------
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+function reportOpenAIUsage(usage: OpenAIUsage | undefined, options: LLMRequestOptions): void {
+  if (!usage) return;
+  options.onUsage?.({ promptTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 });
+}
+
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly type = "openai" as const;
+
+  constructor(private baseUrl: string, private apiKey: string, readonly model: string, private config: GenerationConfig) {}
+
+  async generate(prompt: string, options: LLMRequestOptions = {}): Promise<string> {
+    const response = await this.request(prompt, options, false);
+    const data = await response.json();
+    reportOpenAIUsage(data.usage, options);
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  async *stream(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const response = await this.request(prompt, options, true);
+    for await (const data of readSSE(response)) {
+      if (data === "[DONE]") break;
+      const event = parseEvent(data) as {
+        choices?: { delta?: { content?: string } }[];
+        usage?: OpenAIUsage | null;
+      } | null;
+      // Sent in a final chunk with no choices (servers that ignore stream_options never send it)
+      if (event?.usage) reportOpenAIUsage(event.usage, options);
+      const text = event?.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const response = await fetch(`${this.endpoint}/models`, { signal, headers: this.headers() });
+    if (!response.ok) throw await httpError("OpenAI-compatible", response);
+    const data: { data?: { id: string }[] } = await response.json();
+    return (data.data ?? []).map(m => m.id);
+  }
+
+  private get endpoint(): string {
+    return this.baseUrl.replace(/\/+$/, "");
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    // Local servers usually run without auth — only send the header when a key is set
+    if (this.apiKey) headers["Authorization"] = `Bearer ${this.apiKey}`;
+    return headers;
+  }
+
+  private async request(prompt: string, options: LLMRequestOptions, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.endpoint}/chat/completions`, {
+      method: "POST",
+      signal: options.signal,
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: this.config.temperature,
+        max_tokens: this.config.maxOutputTokens,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        ...(options.json ? { response_format: { type: "json_object" } } : {})
+      })
+    });
+
+    if (!response.ok) {
+      throw await httpError("OpenAI-compatible", response);
+    }
+    return response;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic Messages API
+// ---------------------------------------------------------------------------
+
+class AnthropicProvider implements LLMProvider {
+  readonly type = "anthropic" as const;
+
+  constructor(private apiKey: string, readonly model: string, private config: GenerationConfig) {}
+
+  async generate(prompt: string, options: LLMRequestOptions = {}): Promise<string> {
+    const response = await this.request(prompt, options, false);
+    const data = await response.json();
+    if (data.usage) {
+      options.onUsage?.({ promptTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 });
+    }
+    const blocks: { type: string; text?: string }[] = data.content ?? [];
+    return blocks.filter(b => b.type === "text").map(b => b.text ?? "").join("");
+  }
+
+  async *stream(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const response = await this.request(prompt, options, true);
+    // Input tokens arrive with message_start, the output count with the closing message_delta
+    let promptTokens = 0;
+    let outputTokens: number | null = null;
+    for await (const data of readSSE(response)) {
+      const event = parseEvent(data) as {
+        type?: string;
+        delta?: { type?: string; text?: string };
+        message?: { usage?: { input_tokens?: number } };
+        usage?: { output_tokens?: number };
+      } | null;
+      if (event?.type === "message_start") promptTokens = event.message?.usage?.input_tokens ?? 0;
+      if (event?.type === "message_delta") outputTokens = event.usage?.output_tokens ?? outputTokens;
+      if (event?.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+        yield event.delta.text;
+      }
+    }
+    if (outputTokens !== null) options.onUsage?.({ promptTokens, outputTokens });
+  }
+
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const response = await fetch(`${ANTHROPIC_MODELS_URL}?limit=1000`, { signal, headers: this.headers() });
+    if (!response.ok) throw await httpError("Anthropic", response);
+    const data: { data?: { id: string }[] } = await response.json();
+    return (data.data ?? []).map(m => m.id);
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "x-api-key": this.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+      // Required for calls that originate from a browser extension context
+      "anthropic-dangerous-direct-browser-access": "true",
+    };
+  }
+
+  private async request(prompt: string, options: LLMRequestOptions, stream: boolean): Promise<Response> {
+    // No JSON mode on the Messages API — the prompt asks for JSON instead
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: "POST",
+      signal: options.signal,
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: this.config.maxOutputTokens,
+        // Anthropic caps temperature at 1
+        temperature: Math.min(1, this.config.temperature),
+        messages: [{ role: "user", content: prompt }],
+        stream
+      })
+    });
+
+    if (!response.ok) {
+      throw await httpError("Anthropic", response);
+    }
+    return response;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/** Model ID the selected provider uses for a pass — the aux model falls back to the main one */
+export function modelForRole(settings: ExtensionSettings, role: ModelRole = "main"): string {
+  if (role === "aux" && settings.auxModel.trim()) return settings.auxModel.trim();
+  switch (settings.provider) {
+    case "openai": return settings.openaiModel;
+    case "anthropic": return settings.anthropicModel;
+    case "gemini":
+    default: return settings.model;
+  }
+}
+
+/** Temperature and output limit from settings, clamped to what every backend accepts */
+function generationConfig(settings: ExtensionSettings): GenerationConfig {
+  const temperature = Number.isFinite(settings.temperature) ? settings.temperature : GENERATION_DEFAULTS.temperature;
+  const maxOutputTokens = Number.isFinite(settings.maxOutputTokens) && settings.maxOutputTokens > 0
+    ? Math.round(settings.maxOutputTokens)
+    : GENERATION_DEFAULTS.maxOutputTokens;
+  return {
+    temperature: Math.min(MAX_TEMPERATURE, Math.max(0, temperature)),
+    maxOutputTokens: Math.min(MAX_OUTPUT_TOKENS, maxOutputTokens),
+  };
+}
+
+/**
+ * Build the provider selected in settings, on the model for the given pass.
+ * Throws a user-facing error when the selected provider is missing the
+ * configuration it needs.
+ */
+export function createProvider(settings: ExtensionSettings, role: ModelRole = "main"): LLMProvider {
+  const model = modelForRole(settings, role);
+  const config = generationConfig(settings);
+  switch (settings.provider) {
+    case "openai":
+      if (!settings.openaiBaseUrl) {
+        throw new Error("Please set the base URL of your OpenAI-compatible server in the extension settings.");
+      }
+      if (!model) {
+        throw new Error("Please set a model name for your OpenAI-compatible server in the extension settings.");
+      }
+      return new OpenAICompatibleProvider(settings.openaiBaseUrl, settings.openaiApiKey, model, config);
+
+    case "anthropic":
+      if (!settings.anthropicApiKey) {
+        throw new Error("Please set your Anthropic API key in the extension settings (click the extension icon).");
+      }
+      return new AnthropicProvider(settings.anthropicApiKey, model, config);
+
+    case "gemini":
+    default:
+      if (!settings.apiKey) {
+        throw new Error("Please set your Gemini API key in the extension settings (click the extension icon).");
+      }
+      return new GeminiProvider(settings.apiKey, model, config);
+  }
+}
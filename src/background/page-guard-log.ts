@@ -0,0 +1,33 @@
+// src/background/page-guard-log.ts
+// Recent page guard decisions that kept the model off a page, persisted as
+// "pageGuardLog". The options page lists them next to the site profiles, so a
+// skipped page can be traced back to the reason it was skipped (and a site
+// profile added to override it).
+
+import type { PageGuardDecision, PageGuardLogEntry } from '../types/interfaces.js';
+import { hostOf } from '../shared/site-profiles.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'pageGuardLog';
+const MAX_ENTRIES = 100;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export async function recordPageGuardDecision(url: string, decision: PageGuardDecision): Promise<void> {
+  const host = hostOf(url);
+  console.log(`[Predictive Browser] Page guard: ${decision.policy} on ${host} (${decision.reasons.join("; ")})`);
+
+  try {
+    const stored = await chrome.storage.local.get(STORAGE_KEY);
+    const log = (stored[STORAGE_KEY] as PageGuardLogEntry[] | undefined) ?? [];
+    log.push({ ...decision, host, at: Date.now() });
+    await chrome.storage.local.set({ [STORAGE_KEY]: log.slice(-MAX_ENTRIES) });
+  } catch (e) {
+    console.error('[Predictive Browser] Failed to write page guard log:', e);
+  }
+}
@@ -0,0 +1,142 @@
+// src/background/prompt-guard.ts
+// Prompt-injection hardening. Page-derived text (skeleton previews, meta
+// description, fetched link pages) is scrubbed of instruction-like phrasing and
+// fenced inside nonce-tagged <page-data> blocks the page can't forge; model
+// output is checked for echoes of injected instructions before it's applied.
+
+import type { PageSkeleton, SkeletonNode, TransformInstruction, TransformAction } from '../types/interfaces.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Phrasing aimed at the model rather than the reader */
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override)\b[^.!?\n]{0,40}\b(previous|prior|above|earlier|preceding|all|any|your|the)\b[^.!?\n]{0,20}\b(instructions?|prompts?|rules|guidelines|directions|context)\b/i,
+  /\b(new|updated|real|actual)\s+(system\s+)?instructions?\s*:/i,
+  /\bsystem\s+prompt\b/i,
+  /\byou\s+are\s+now\b/i,
+  /\b(act|behave|respond)\s+as\s+(an?|the|if)\b[^.!?\n]{0,30}\b(ai|assistant|model|system|optimizer)\b/i,
+  /\b(ai|assistant|language\s+model|llm|chatbot|gpt|gemini|claude)\b[^.!?\n]{0,40}\b(must|should|shall|needs?\s+to)\b[^.!?\n]{0,40}\b(highlight|reorder|annotate|collapse|dim|recommend|promote|ignore|output|return)\b/i,
+  /\b(highlight|promote|reorder|move)\b[^.!?\n]{0,30}\b(to the top|above everything|first)\b[^.!?\n]{0,40}\b(regardless|no matter|always)\b/i,
+  /^\s*(system|assistant|developer)\s*:/im,
+  /<\/?\s*(system|instructions?|prompt)\s*>/i,
+];
+
+/** Extra phrasing that only matters in model output: the model admitting it followed the page */
+const ECHO_PATTERNS: RegExp[] = [
+  /\b(as|per)\s+(instructed|requested|directed)\s+by\s+the\s+(page|site|content|text)\b/i,
+  /\b(the\s+)?(page|site)\s+(instructs|asks|tells|told|requested)\b/i,
+];
+
+/** Badges and reasons are short UI text — links in them are a phishing vector */
+const URL_PATTERN = /\bhttps?:\/\/|\bwww\.[a-z0-9-]+\.[a-z]/i;
+
+const DATA_TAG = "page-data";
+const REDACTED = "[instruction-like text removed]";
+
+/** Actions that draw attention to an element — exactly what an injection wants */
+const PROMOTING_ACTIONS = new Set<TransformAction>(["highlight", "reorder", "annotate"]);
+
+// ---------------------------------------------------------------------------
+// Input Side — scrub and fence page content
+// ---------------------------------------------------------------------------
+
+export interface SanitizedText {
+  text: string;
+  flagged: boolean;
+}
+
+/** Neutralize instruction-like phrasing and anything resembling our data fences */
+export function sanitizePageText(text: string): SanitizedText {
+  let flagged = false;
+  let cleaned = text.replace(new RegExp(`<\\s*/?\\s*${DATA_TAG}[^>]*>?`, "gi"), () => {
+    flagged = true;
+    return "";
+  });
+  for (const pattern of INJECTION_PATTERNS) {
+    // Take the rest of the sentence too — "…and highlight the Buy button" is the payload
+    const global = new RegExp(`${pattern.source}[^.!?\\n]*`, pattern.flags.includes("g") ? pattern.flags : pattern.flags + "g");
+    cleaned = cleaned.replace(global, () => {
+      flagged = true;
+      return REDACTED;
+    });
+  }
+  return { text: cleaned, flagged };
+}
+
+/**
+ * Copy of the skeleton with every preview / alt / description scrubbed.
+ * `flaggedNodeIds` lists nodes whose own text looked like an injection attempt.
+ */
+export function sanitizeSkeleton(skeleton: PageSkeleton): { skeleton: PageSkeleton; flaggedNodeIds: Set<string> } {
+  const flaggedNodeIds = new Set<string>();
+
+  const clean = (node: SkeletonNode): SkeletonNode => {
+    const preview = sanitizePageText(node.textPreview);
+    const alt = node.alt !== undefined ? sanitizePageText(node.alt) : undefined;
+    if (preview.flagged || alt?.flagged) flaggedNodeIds.add(node.id);
+    return {
+      ...node,
+      textPreview: preview.text,
+      alt: alt?.text,
+      children: node.children.map(clean),
+    };
+  };
+
+  const nodes = skeleton.nodes.map(clean);
+  const title = sanitizePageText(skeleton.title);
+  const description = sanitizePageText(skeleton.metaDescription);
+  if (flaggedNodeIds.size > 0 || title.flagged || description.flagged) {
+    console.warn(`[Predictive Browser] Neutralized instruction-like page text (${flaggedNodeIds.size} nodes)`);
+  }
+
+  return {
+    skeleton: { ...skeleton, title: title.text, metaDescription: description.text, nodes },
+    flaggedNodeIds,
+  };
+}
+
+/** Per-prompt random tag suffix — page text can't close a fence it can't predict */
+export function createFenceNonce(): string {
+  return crypto.getRandomValues(new Uint32Array(2)).reduce((s, n) => s + n.toString(36), "");
+}
+
+/** Wrap untrusted content in a delimited data block */
+export function fence(label: string, content: string, nonce: string): string {
+  return `<${DATA_TAG} ${nonce} source="${label}">\n${content}\n</${DATA_TAG} ${nonce}>`;
+}
+
+// ---------------------------------------------------------------------------
+// Output Side — post-check model answers
+// ---------------------------------------------------------------------------
+
+/** True when model-written UI text contains a link or echoes instruction-like phrasing */
+export function isSuspiciousOutput(text: string | undefined): boolean {
+  if (!text) return false;
+  if (URL_PATTERN.test(text)) return true;
+  return INJECTION_PATTERNS.some(p => p.test(text)) || ECHO_PATTERNS.some(p => p.test(text));
+}
+
+/**
+ * Drop transforms whose reason/annotation echo injected instructions, and
+ * promoting transforms aimed at nodes whose own text carried an injection.
+ */
+export function screenTransforms(
+  transforms: TransformInstruction[],
+  flaggedNodeIds: Set<string>
+): { transforms: TransformInstruction[]; dropped: number } {
+  const kept = transforms.filter(t => {
+    if (isSuspiciousOutput(t.reason) || isSuspiciousOutput(t.annotation)) return false;
+    if (PROMOTING_ACTIONS.has(t.action)) {
+      const id = t.selector.match(/node-\d+/)?.[0];
+      if (id && flaggedNodeIds.has(id)) return false;
+    }
+    return true;
+  });
+  const dropped = transforms.length - kept.length;
+  if (dropped > 0) {
+    console.warn(`[Predictive Browser] Dropped ${dropped} transforms that echoed page instructions`);
+  }
+  return { transforms: kept, dropped };
+}
@@ -0,0 +1,286 @@
+// src/background/rate-limiter.ts
+// Guards every LLM call: per-minute/per-day request and token budgets, the
+// daily cost cap, retry with exponential backoff + jitter (honoring
+// Retry-After), and a circuit breaker that pauses calls after repeated
+// failures. The resulting health is persisted as "llmStatus" for the popup
+// and content script.
+
+import type { ExtensionSettings, LLMStatus, LLMStatusState } from '../types/interfaces.js';
+import { LLMHttpError } from './llm-providers.js';
+import { getTodayCost } from './usage-tracker.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const GUARD_STORAGE_KEY = 'llmGuardState';
+const STATUS_STORAGE_KEY = 'llmStatus';
+
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 15000;
+/** Retry-After longer than this isn't worth holding the page for — fail fast instead */
+const MAX_RETRY_WAIT_MS = 30000;
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+/** The request itself is wrong (bad key, unknown model) — a settings problem, not an outage */
+const CONFIG_ERROR_STATUSES = new Set([400, 401, 403, 404]);
+
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_OPEN_MS = 2 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface GuardState {
+  minuteWindowStart: number;
+  minuteRequests: number;
+  minuteTokens: number;
+  /** Local date (YYYY-MM-DD) the day counters belong to */
+  day: string;
+  dayRequests: number;
+  dayTokens: number;
+  consecutiveFailures: number;
+  /** Circuit is open (calls refused) until this timestamp */
+  circuitOpenUntil: number;
+}
+
+/** Thrown without touching the network when a budget or the circuit breaker refuses the call */
+export class LLMUnavailableError extends Error {
+  constructor(readonly status: LLMStatus) {
+    super(status.message);
+    this.name = "LLMUnavailableError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module State
+// ---------------------------------------------------------------------------
+
+let state: GuardState | null = null;
+let status: LLMStatus = { state: "ok", message: "Ready", updatedAt: Date.now() };
+
+function today(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+async function loadState(): Promise<GuardState> {
+  if (!state) {
+    try {
+      const result = await chrome.storage.local.get(GUARD_STORAGE_KEY);
+      state = result[GUARD_STORAGE_KEY] as GuardState | undefined ?? null;
+    } catch { /* start fresh */ }
+    state ??= {
+      minuteWindowStart: 0, minuteRequests: 0, minuteTokens: 0,
+      day: today(), dayRequests: 0, dayTokens: 0,
+      consecutiveFailures: 0, circuitOpenUntil: 0,
+    };
+  }
+
+  // State saved before the per-minute token budget existed
+  state.minuteTokens ??= 0;
+
+  // Roll windows forward
+  const now = Date.now();
+  if (now - state.minuteWindowStart >= MINUTE_MS) {
+    state.minuteWindowStart = now;
+    state.minuteRequests = 0;
+    state.minuteTokens = 0;
+  }
+  if (state.day !== today()) {
+    state.day = today();
+    state.dayRequests = 0;
+    state.dayTokens = 0;
+  }
+  return state;
+}
+
+async function saveState(): Promise<void> {
+  try {
+    await chrome.storage.local.set({ [GUARD_STORAGE_KEY]: state });
+  } catch (e) {
+    console.error('[Predictive Browser] Failed to write LLM guard state:', e);
+  }
+}
+
+async function setStatus(next: LLMStatusState, message: string, retryAt?: number): Promise<void> {
+  status = { state: next, message, retryAt, updatedAt: Date.now() };
+  try {
+    await chrome.storage.local.set({ [STATUS_STORAGE_KEY]: status });
+  } catch { /* status is best-effort */ }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function getLLMStatus(): LLMStatus {
+  return status;
+}
+
+/** Rough token estimate (~4 chars per token) used for budget accounting */
+export function estimateTokenCount(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Run an LLM call under the budgets, retry policy and circuit breaker.
+ * `promptTokens` is charged up front; `countOutput` converts the result into
+ * the output tokens charged afterwards. An aborted `signal` stops retries and
+ * never counts as a provider failure.
+ */
+export async function guardLLMCall<T>(
+  settings: ExtensionSettings,
+  promptTokens: number,
+  call: () => Promise<T>,
+  countOutput: (result: T) => number = () => 0,
+  signal?: AbortSignal
+): Promise<T> {
+  signal?.throwIfAborted();
+  const guard = await loadState();
+
+  // 1. Circuit breaker — refuse outright while open. Once the window passes the next
+  //    call goes through, and a single further failure re-opens it.
+  if (guard.circuitOpenUntil > Date.now()) {
+    const s = await refuse("circuit_open",
+      `Paused after ${guard.consecutiveFailures} failed calls — retrying automatically soon.`, guard.circuitOpenUntil);
+    throw new LLMUnavailableError(s);
+  }
+
+  // 2. Call with retries — every attempt is charged, so every attempt must fit the budgets
+  let lastError: unknown;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    await checkBudgets(settings, await loadState(), promptTokens);
+    guard.minuteRequests++;
+    guard.minuteTokens += promptTokens;
+    guard.dayRequests++;
+    guard.dayTokens += promptTokens;
+    await saveState();
+
+    try {
+      const result = await call();
+      const outputTokens = countOutput(result);
+      guard.minuteTokens += outputTokens;
+      guard.dayTokens += outputTokens;
+      guard.consecutiveFailures = 0;
+      await saveState();
+      if (status.state !== "ok") await setStatus("ok", "Ready");
+      return result;
+    } catch (e) {
+      // The tab moved on — not the provider's fault, and nobody wants the answer
+      if (signal?.aborted) throw e;
+      lastError = e;
+      const waitMs = retryDelay(e, attempt);
+      if (waitMs === null || attempt === MAX_ATTEMPTS - 1) break;
+
+      console.warn(`[Predictive Browser] LLM call failed (attempt ${attempt + 1}/${MAX_ATTEMPTS}), retrying in ${waitMs}ms:`, e);
+      await setStatus("retrying", `Model busy — retrying (attempt ${attempt + 2}/${MAX_ATTEMPTS})`, Date.now() + waitMs);
+      await delay(waitMs, signal);
+    }
+  }
+
+  // 3. Out of attempts. Only provider outages count toward the circuit breaker —
+  //    one misconfigured request mustn't pause every tab
+  if (lastError instanceof LLMHttpError && CONFIG_ERROR_STATUSES.has(lastError.status)) {
+    await setStatus("config_error",
+      `The model provider rejected the request (HTTP ${lastError.status}) — check the API key and model in settings.`);
+    throw lastError;
+  }
+  if (!isOutage(lastError)) {
+    await setStatus("error", lastError instanceof Error ? lastError.message : "LLM call failed");
+    throw lastError;
+  }
+
+  guard.consecutiveFailures++;
+  if (guard.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    guard.circuitOpenUntil = Date.now() + CIRCUIT_OPEN_MS;
+    await setStatus("circuit_open",
+      `Paused after ${guard.consecutiveFailures} failed calls — retrying automatically soon.`, guard.circuitOpenUntil);
+  } else if (lastError instanceof LLMHttpError && lastError.status === 429) {
+    const retryAt = lastError.retryAfterMs !== null ? Date.now() + lastError.retryAfterMs : undefined;
+    await setStatus("rate_limited", "The model provider is rate limiting requests.", retryAt);
+  } else {
+    await setStatus("error", lastError instanceof Error ? lastError.message : "LLM call failed");
+  }
+  await saveState();
+  throw lastError;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function refuse(next: LLMStatusState, message: string, retryAt: number): Promise<LLMStatus> {
+  await setStatus(next, message, retryAt);
+  return status;
+}
+
+/** Throws LLMUnavailableError when charging one more attempt would break a budget */
+async function checkBudgets(settings: ExtensionSettings, guard: GuardState, promptTokens: number): Promise<void> {
+  if (settings.maxRequestsPerMinute > 0 && guard.minuteRequests >= settings.maxRequestsPerMinute) {
+    const s = await refuse("rate_limited",
+      `Per-minute request limit reached (${settings.maxRequestsPerMinute}).`, guard.minuteWindowStart + MINUTE_MS);
+    throw new LLMUnavailableError(s);
+  }
+  if (settings.maxTokensPerMinute > 0 && guard.minuteTokens + promptTokens > settings.maxTokensPerMinute) {
+    const s = await refuse("rate_limited",
+      `Per-minute token limit reached (${settings.maxTokensPerMinute}).`, guard.minuteWindowStart + MINUTE_MS);
+    throw new LLMUnavailableError(s);
+  }
+  if (settings.maxRequestsPerDay > 0 && guard.dayRequests >= settings.maxRequestsPerDay) {
+    const s = await refuse("quota_exceeded", `Daily request limit reached (${settings.maxRequestsPerDay}).`, nextMidnight());
+    throw new LLMUnavailableError(s);
+  }
+  if (settings.maxTokensPerDay > 0 && guard.dayTokens + promptTokens > settings.maxTokensPerDay) {
+    const s = await refuse("quota_exceeded", `Daily token limit reached (${settings.maxTokensPerDay}).`, nextMidnight());
+    throw new LLMUnavailableError(s);
+  }
+  if (settings.maxCostPerDay > 0 && await getTodayCost() >= settings.maxCostPerDay) {
+    const s = await refuse("quota_exceeded",
+      `Daily cost cap reached ($${settings.maxCostPerDay.toFixed(2)}) — using the offline engine.`, nextMidnight());
+    throw new LLMUnavailableError(s);
+  }
+}
+
+/** Server-side or network failures — the ones the circuit breaker is for */
+function isOutage(error: unknown): boolean {
+  if (error instanceof LLMHttpError) return RETRYABLE_STATUSES.has(error.status) || error.status >= 500;
+  // fetch() rejects with TypeError on network failures
+  return error instanceof TypeError;
+}
+
+/** Milliseconds to wait before retrying, or null when the error isn't worth retrying */
+function retryDelay(error: unknown, attempt: number): number | null {
+  if (error instanceof LLMHttpError) {
+    if (!RETRYABLE_STATUSES.has(error.status)) return null;
+    if (error.retryAfterMs !== null) {
+      return error.retryAfterMs <= MAX_RETRY_WAIT_MS ? error.retryAfterMs : null;
+    }
+  } else if (!(error instanceof TypeError)) {
+    // fetch() rejects with TypeError on network failures; anything else is a bug or config error
+    return null;
+  }
+
+  const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  // Jitter keeps many tabs from retrying in lockstep
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+function nextMidnight(): number {
+  const d = new Date();
+  d.setHours(24, 0, 0, 0);
+  return d.getTime();
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
@@ -0,0 +1,167 @@
+// src/background/relevance-scorer.ts
+// Local lexical relevance: BM25 over the page's own nodes, with the query built
+// from the user's focus, topic model and inbound search query. Runs before any
+// model call — its scores prune the prompt, pick link candidates, back-check
+// the model's suppressions, drive the offline engine, and ride along on the
+// skeleton (SkeletonNode.localScore) for the content script.
+
+import type { PageSkeleton, SkeletonNode, UserProfile, EnhancedUserProfile } from '../types/interfaces.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "from", "this", "that", "what", "how", "why",
+  "your", "you", "our", "are", "was", "been", "has", "have", "had", "its",
+  "can", "will", "not", "all", "new", "get", "more", "about", "into", "any",
+  "who", "when", "where", "which", "their", "them", "they", "than", "then",
+  "but", "out", "just", "also", "some", "such", "only", "over", "very",
+]);
+
+// Query term weights by source
+const WEIGHT_SEARCH_QUERY = 4.0;
+const WEIGHT_FOCUS = 3.0;
+const WEIGHT_TOPIC_MAX = 2.0;
+const WEIGHT_INTEREST = 1.0;
+
+// BM25 — term frequency saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** Headings label whole sections — a match there counts for more */
+const HEADING_BOOST = 1.25;
+
+// ---------------------------------------------------------------------------
+// Tokenization
+// ---------------------------------------------------------------------------
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length >= 3 && !STOP_WORDS.has(w) && !/^\d+$/.test(w));
+}
+
+function isEnhancedProfile(p: UserProfile | EnhancedUserProfile): p is EnhancedUserProfile {
+  return 'topicModel' in p;
+}
+
+/** Build a weighted bag of query terms from everything we know about the user's intent */
+export function buildQueryTerms(profile: UserProfile | EnhancedUserProfile): Map<string, number> {
+  const terms = new Map<string, number>();
+  const add = (text: string, weight: number): void => {
+    for (const term of tokenize(text)) {
+      terms.set(term, Math.max(terms.get(term) ?? 0, weight));
+    }
+  };
+
+  add(profile.currentFocus, WEIGHT_FOCUS);
+
+  if (isEnhancedProfile(profile)) {
+    add(profile.inboundSearchQuery, WEIGHT_SEARCH_QUERY);
+    const maxScore = Math.max(...profile.topicModel.map(t => t.score), 0);
+    for (const t of profile.topicModel) {
+      if (maxScore > 0) add(t.topic, WEIGHT_TOPIC_MAX * (t.score / maxScore));
+    }
+  } else {
+    for (const interest of profile.interests) add(interest, WEIGHT_INTEREST);
+  }
+
+  return terms;
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+/** Text a node is matched on — links also match on their URL path ("/careers/engineering") */
+export function nodeText(node: SkeletonNode): string {
+  return [node.textPreview, node.alt ?? "", node.type === "link" ? linkPath(node.href) : ""].join(" ");
+}
+
+/**
+ * BM25 score of every addressable node against the weighted query terms, with
+ * the page's nodes as the corpus: terms that appear everywhere on the page
+ * (site name, nav labels) carry little weight, rare ones a lot.
+ */
+export function scoreNodes(nodes: SkeletonNode[], queryTerms: Map<string, number>): Map<string, number> {
+  const docs: { node: SkeletonNode; tf: Map<string, number>; length: number }[] = [];
+  const walk = (list: SkeletonNode[]): void => {
+    for (const node of list) {
+      if (node.selector) {
+        const tokens = tokenize(nodeText(node));
+        const tf = new Map<string, number>();
+        for (const token of tokens) tf.set(token, (tf.get(token) ?? 0) + 1);
+        docs.push({ node, tf, length: tokens.length });
+      }
+      walk(node.children);
+    }
+  };
+  walk(nodes);
+
+  const scores = new Map<string, number>();
+  if (docs.length === 0) return scores;
+
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+  const idf = new Map<string, number>();
+  for (const term of queryTerms.keys()) {
+    const df = docs.filter(d => d.tf.has(term)).length;
+    idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)));
+  }
+
+  for (const { node, tf, length } of docs) {
+    let score = 0;
+    for (const [term, weight] of queryTerms) {
+      const f = tf.get(term);
+      if (!f) continue;
+      const norm = f * (BM25_K1 + 1) / (f + BM25_K1 * (1 - BM25_B + BM25_B * length / avgLength));
+      score += weight * (idf.get(term) ?? 0) * norm;
+    }
+    if (score > 0 && node.type === "heading") score *= HEADING_BOOST;
+    scores.set(node.id, score);
+  }
+  return scores;
+}
+
+/**
+ * Score the skeleton against the profile and store each node's share of the
+ * best score (0–1, two decimals) as `localScore`, and the score itself as
+ * `rawLocalScore`. Returns the non-zero shares by node id — the form the
+ * content script receives them in.
+ */
+export function attachLocalScores(
+  skeleton: PageSkeleton,
+  profile: UserProfile | EnhancedUserProfile
+): Record<string, number> {
+  const scores = scoreNodes(skeleton.nodes, buildQueryTerms(profile));
+  const best = Math.max(...scores.values(), 0);
+  const byId: Record<string, number> = {};
+
+  const walk = (list: SkeletonNode[]): void => {
+    for (const node of list) {
+      const raw = scores.get(node.id);
+      if (raw !== undefined) {
+        node.rawLocalScore = raw;
+        node.localScore = best > 0 ? Math.round(raw / best * 100) / 100 : 0;
+        if (node.localScore > 0) byId[node.id] = node.localScore;
+      }
+      walk(node.children);
+    }
+  };
+  walk(skeleton.nodes);
+
+  return byId;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function linkPath(href: string | undefined): string {
+  if (!href) return "";
+  try {
+    return decodeURIComponent(new URL(href, "https://x.invalid").pathname);
+  } catch {
+    return "";
+  }
+}
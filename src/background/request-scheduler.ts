@@ -0,0 +1,229 @@
+// src/background/request-scheduler.ts
+// Cross-tab queue for LLM work. Limits how many passes run at once, serves the
+// tab the user is looking at first, defers tabs that aren't visible until they
+// are activated, and coalesces identical in-flight requests (same page, same
+// profile inputs) so restoring a window of duplicate tabs costs one call.
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const MAX_CONCURRENT = 2;
+
+/** Lower runs first */
+const RANK_FOCUSED_TRANSFORM = 0;
+const RANK_VISIBLE_TRANSFORM = 1;
+const RANK_FOCUSED_LINKS = 2;
+const RANK_VISIBLE_LINKS = 3;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Transform passes outrank link-preview passes for the same visibility */
+export type RequestKind = "transform" | "linkPreviews";
+
+export interface ScheduleOptions {
+  /** Requests with the same key share one execution */
+  key: string;
+  kind: RequestKind;
+  /** Tab the result is for; omitted for work not tied to a tab (never deferred) */
+  tabId?: number;
+  /** Aborting withdraws this caller; the work itself stops once every caller has withdrawn */
+  signal?: AbortSignal;
+}
+
+interface SharedRequest {
+  /** kind + caller key */
+  key: string;
+  kind: RequestKind;
+  tabIds: Set<number>;
+  /** At least one caller isn't tied to a tab */
+  untethered: boolean;
+  controller: AbortController;
+  subscribers: number;
+  started: boolean;
+  enqueuedAt: number;
+  task: (signal: AbortSignal) => Promise<unknown>;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+interface Visibility {
+  focused: Set<number>;
+  visible: Set<number>;
+}
+
+// ---------------------------------------------------------------------------
+// Module State
+// ---------------------------------------------------------------------------
+
+const pending = new Map<string, SharedRequest>();
+const queue: SharedRequest[] = [];
+let running = 0;
+let pumping = false;
+let pumpAgain = false;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Run `task` under the scheduler. Resolves with the task's result, or rejects
+ * with the caller's abort reason if its signal fires first.
+ */
+export function scheduleRequest<T>(
+  options: ScheduleOptions,
+  task: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  options.signal?.throwIfAborted();
+
+  const pendingKey = `${options.kind}:${options.key}`;
+  let shared = pending.get(pendingKey);
+  if (shared) {
+    console.log(`[Predictive Browser] Coalesced ${options.kind} request for tab ${options.tabId ?? "-"} with one in flight`);
+  } else {
+    shared = createShared(pendingKey, options.kind, task as (signal: AbortSignal) => Promise<unknown>);
+    pending.set(pendingKey, shared);
+    queue.push(shared);
+  }
+
+  if (options.tabId !== undefined) shared.tabIds.add(options.tabId);
+  else shared.untethered = true;
+
+  const subscription = subscribe(shared, options.signal) as Promise<T>;
+  void pump();
+  return subscription;
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function createShared(key: string, kind: RequestKind, task: (signal: AbortSignal) => Promise<unknown>): SharedRequest {
+  let resolve!: (value: unknown) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<unknown>((res, rej) => { resolve = res; reject = rej; });
+  // Every caller may have withdrawn by the time it settles — never surface as unhandled
+  promise.catch(() => { /* handled per subscriber */ });
+
+  return {
+    key,
+    kind,
+    tabIds: new Set(),
+    untethered: false,
+    controller: new AbortController(),
+    subscribers: 0,
+    started: false,
+    enqueuedAt: Date.now(),
+    task,
+    promise,
+    resolve,
+    reject,
+  };
+}
+
+function subscribe(shared: SharedRequest, signal?: AbortSignal): Promise<unknown> {
+  shared.subscribers++;
+  if (!signal) return shared.promise;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      reject(signal.reason);
+      if (--shared.subscribers > 0) return;
+      // Nobody is waiting any more — drop it from the queue or stop it mid-flight.
+      // Either way it leaves `pending` now, so a new caller with the same key
+      // starts fresh instead of joining a request that is already cancelled
+      shared.controller.abort(signal.reason);
+      if (pending.get(shared.key) === shared) pending.delete(shared.key);
+      if (!shared.started) {
+        queue.splice(queue.indexOf(shared), 1);
+        shared.reject(signal.reason);
+      }
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    shared.promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/** Which tabs the user can currently see: active tabs of non-minimized windows */
+async function getVisibility(): Promise<Visibility> {
+  const focused = new Set<number>();
+  const visible = new Set<number>();
+  try {
+    const windows = await chrome.windows.getAll({ populate: true });
+    for (const win of windows) {
+      if (win.state === "minimized") continue;
+      const active = win.tabs?.find(t => t.active);
+      if (active?.id === undefined) continue;
+      visible.add(active.id);
+      if (win.focused) focused.add(active.id);
+    }
+  } catch { /* no window info — treat everything as hidden except untethered work */ }
+  return { focused, visible };
+}
+
+/** Rank a queued request, or null while none of its tabs are visible (deferred) */
+function rank(shared: SharedRequest, visibility: Visibility): number | null {
+  const isTransform = shared.kind === "transform";
+  if (shared.untethered) return isTransform ? RANK_VISIBLE_TRANSFORM : RANK_VISIBLE_LINKS;
+
+  const tabs = [...shared.tabIds];
+  if (tabs.some(id => visibility.focused.has(id))) return isTransform ? RANK_FOCUSED_TRANSFORM : RANK_FOCUSED_LINKS;
+  if (tabs.some(id => visibility.visible.has(id))) return isTransform ? RANK_VISIBLE_TRANSFORM : RANK_VISIBLE_LINKS;
+  return null;
+}
+
+/** Start as many runnable requests as the concurrency limit allows */
+async function pump(): Promise<void> {
+  if (pumping) {
+    pumpAgain = true;
+    return;
+  }
+  pumping = true;
+  try {
+    do {
+      pumpAgain = false;
+      if (running >= MAX_CONCURRENT || queue.length === 0) continue;
+
+      const visibility = await getVisibility();
+      const runnable = queue
+        .map(shared => ({ shared, rank: rank(shared, visibility) }))
+        .filter((r): r is { shared: SharedRequest; rank: number } => r.rank !== null)
+        .sort((a, b) => a.rank - b.rank || a.shared.enqueuedAt - b.shared.enqueuedAt);
+
+      for (const { shared } of runnable.slice(0, MAX_CONCURRENT - running)) {
+        start(shared);
+      }
+
+      const deferred = queue.length;
+      if (deferred > 0 && runnable.length === 0) {
+        console.log(`[Predictive Browser] ${deferred} request(s) deferred until their tab is visible`);
+      }
+    } while (pumpAgain);
+  } finally {
+    pumping = false;
+  }
+}
+
+function start(shared: SharedRequest): void {
+  queue.splice(queue.indexOf(shared), 1);
+  shared.started = true;
+  running++;
+
+  shared.task(shared.controller.signal)
+    .then(shared.resolve, shared.reject)
+    .finally(() => {
+      running--;
+      if (pending.get(shared.key) === shared) pending.delete(shared.key);
+      void pump();
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Visibility Changes — deferred tabs become runnable
+// ---------------------------------------------------------------------------
+
+chrome.tabs.onActivated.addListener(() => { void pump(); });
+chrome.windows.onFocusChanged.addListener(() => { void pump(); });
@@ -0,0 +1,294 @@
+// src/background/response-validator.ts
+// Checks model-produced transforms against the PageSkeleton they were asked
+// about: unknown selectors are repaired by node id or dropped, reorder targets
+// must be real siblings, and contradictory instructions on the same node (or on
+// a node and its ancestor) are resolved. Nodes that strongly match the user's
+// focus, by the local relevance scorer, can't be collapsed or dimmed.
+// Rejection counts are recorded per page under "validationStats" so prompt
+// changes can be compared.
+
+import type { PageSkeleton, SkeletonNode, TransformInstruction, TransformAction } from '../types/interfaces.js';
+import { normalizeUrl } from './transform-cache.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'validationStats';
+const MAX_PAGE_ENTRIES = 200;
+const WRITE_DEBOUNCE_MS = 2000;
+
+/** Actions that hide or fade a node — contradict anything that promotes it */
+const SUPPRESSING_ACTIONS = new Set<TransformAction>(["collapse", "dim"]);
+
+const NODE_ID = /node-\d+/;
+
+/** SkeletonNode.localScore at or above which collapse/dim is treated as a model mistake */
+const PROTECTED_LOCAL_SCORE = 0.8;
+/**
+ * SkeletonNode.rawLocalScore the node must also reach — localScore is relative to
+ * the page's best match, which on a page with only stray keyword hits is weak
+ */
+const MIN_PROTECTED_RAW_SCORE = 3;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RejectionReason =
+  | "malformed"
+  /** Well-formed, but the action is turned off in settings — the user's choice, not a model error */
+  | "disabled_action"
+  | "unknown_selector"
+  | "invalid_position"
+  | "missing_annotation"
+  | "duplicate"
+  | "conflict"
+  | "suspicious"
+  | "focus_match";
+
+export interface ValidationReport {
+  received: number;
+  accepted: number;
+  /** Accepted after rewriting the selector or position to the node's primary selector */
+  repaired: number;
+  rejected: Record<RejectionReason, number>;
+}
+
+interface PageStatsEntry extends ValidationReport {
+  url: string;
+  at: number;
+}
+
+interface ValidationStats {
+  totals: ValidationReport;
+  pages: PageStatsEntry[];
+}
+
+interface NodeInfo {
+  node: SkeletonNode;
+  parent: SkeletonNode | null;
+}
+
+interface SkeletonIndex {
+  bySelector: Map<string, NodeInfo>;
+  byId: Map<string, NodeInfo>;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export function createEmptyReport(): ValidationReport {
+  return {
+    received: 0,
+    accepted: 0,
+    repaired: 0,
+    rejected: { malformed: 0, disabled_action: 0, unknown_selector: 0, invalid_position: 0, missing_annotation: 0, duplicate: 0, conflict: 0, suspicious: 0, focus_match: 0 },
+  };
+}
+
+function indexSkeleton(skeleton: PageSkeleton): SkeletonIndex {
+  const bySelector = new Map<string, NodeInfo>();
+  const byId = new Map<string, NodeInfo>();
+  const walk = (nodes: SkeletonNode[], parent: SkeletonNode | null): void => {
+    for (const node of nodes) {
+      // Synthetic "... N more items" markers have no selector and can't be targeted
+      if (node.selector) {
+        const info = { node, parent };
+        bySelector.set(node.selector, info);
+        if (node.fallbackSelector && !bySelector.has(node.fallbackSelector)) {
+          bySelector.set(node.fallbackSelector, info);
+        }
+        byId.set(node.id, info);
+      }
+      walk(node.children, node);
+    }
+  };
+  walk(skeleton.nodes, null);
+  return { bySelector, byId };
+}
+
+/** Exact selector first, then any node id mentioned in it (e.g. `div[data-pb-node='node-4']`) */
+function resolve(selector: string, index: SkeletonIndex): NodeInfo | null {
+  const exact = index.bySelector.get(selector.trim());
+  if (exact) return exact;
+  const id = selector.match(NODE_ID)?.[0];
+  return id ? index.byId.get(id) ?? null : null;
+}
+
+function isAncestor(ancestor: SkeletonNode, node: SkeletonNode): boolean {
+  for (const child of ancestor.children) {
+    if (child === node || isAncestor(child, node)) return true;
+  }
+  return false;
+}
+
+/** One of the page's best matches for the user's focus, and a real match in its own right */
+function isProtected(node: SkeletonNode): boolean {
+  return (node.localScore ?? 0) >= PROTECTED_LOCAL_SCORE && (node.rawLocalScore ?? 0) >= MIN_PROTECTED_RAW_SCORE;
+}
+
+/**
+ * Validate transforms against the skeleton. `accepted` holds transforms that were
+ * already let through (e.g. earlier batches of a stream) — they've been applied,
+ * so new instructions that contradict them lose.
+ */
+export function validateTransforms(
+  transforms: TransformInstruction[],
+  skeleton: PageSkeleton,
+  accepted: TransformInstruction[] = []
+): { transforms: TransformInstruction[]; report: ValidationReport } {
+  const index = indexSkeleton(skeleton);
+  const report = createEmptyReport();
+  report.received = transforms.length;
+
+  // Pass 1 — per-instruction checks and repairs
+  const checked: { t: TransformInstruction; node: SkeletonNode }[] = [];
+  for (const original of transforms) {
+    const target = resolve(original.selector, index);
+    if (!target) {
+      report.rejected.unknown_selector++;
+      continue;
+    }
+
+    // Lexical sanity check: hiding one of the best keyword matches for the user's focus
+    if (SUPPRESSING_ACTIONS.has(original.action) && isProtected(target.node)) {
+      report.rejected.focus_match++;
+      continue;
+    }
+
+    const t: TransformInstruction = { ...original, selector: target.node.selector };
+    let repaired = t.selector !== original.selector;
+
+    if (t.action === "reorder") {
+      if (t.position === "top") {
+        // Moving to the top of its own parent is always well-defined
+      } else if (typeof t.position === "string" && t.position.startsWith("above:")) {
+        const anchor = resolve(t.position.slice("above:".length), index);
+        if (!anchor || anchor.node === target.node || anchor.parent !== target.parent) {
+          report.rejected.invalid_position++;
+          continue;
+        }
+        const position = `above:${anchor.node.selector}`;
+        if (position !== t.position) repaired = true;
+        t.position = position;
+      } else {
+        report.rejected.invalid_position++;
+        continue;
+      }
+    }
+
+    if (t.action === "annotate" && !(typeof t.annotation === "string" && t.annotation.trim())) {
+      report.rejected.missing_annotation++;
+      continue;
+    }
+
+    if (repaired) report.repaired++;
+    checked.push({ t, node: target.node });
+  }
+
+  // Pass 2 — conflicts. Already-applied transforms and promoting actions win;
+  // otherwise the model's own ordering (most relevant first) decides.
+  const kept: { t: TransformInstruction; node: SkeletonNode }[] = accepted
+    .map(t => ({ t, node: resolve(t.selector, index)?.node }))
+    .filter((k): k is { t: TransformInstruction; node: SkeletonNode } => k.node !== undefined);
+  const fresh: TransformInstruction[] = [];
+
+  const ordered = [
+    ...checked.filter(c => !SUPPRESSING_ACTIONS.has(c.t.action)),
+    ...checked.filter(c => SUPPRESSING_ACTIONS.has(c.t.action)),
+  ];
+  for (const candidate of ordered) {
+    const suppressing = SUPPRESSING_ACTIONS.has(candidate.t.action);
+
+    if (kept.some(k => k.node === candidate.node && k.t.action === candidate.t.action)) {
+      report.rejected.duplicate++;
+      continue;
+    }
+
+    const contradicts = kept.some(k => {
+      const keptSuppressing = SUPPRESSING_ACTIONS.has(k.t.action);
+      if (k.node === candidate.node) {
+        // Two suppressions (collapse + dim) or promote + suppress on one node
+        return suppressing || keptSuppressing;
+      }
+      // Hiding a container would also hide something we promote inside it
+      if (suppressing && !keptSuppressing) return isAncestor(candidate.node, k.node);
+      if (!suppressing && keptSuppressing) return isAncestor(k.node, candidate.node);
+      return false;
+    });
+    if (contradicts) {
+      report.rejected.conflict++;
+      continue;
+    }
+
+    kept.push(candidate);
+    fresh.push(candidate.t);
+  }
+
+  // Restore the model's relevance ordering
+  const order = new Map(checked.map((c, i) => [c.t, i]));
+  fresh.sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0));
+
+  report.accepted = fresh.length;
+  return { transforms: fresh, report };
+}
+
+/** Fold one report into another (used to total up streamed batches) */
+export function mergeReports(into: ValidationReport, from: ValidationReport): void {
+  into.received += from.received;
+  into.accepted += from.accepted;
+  into.repaired += from.repaired;
+  for (const reason of Object.keys(into.rejected) as RejectionReason[]) {
+    into.rejected[reason] += from.rejected[reason];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Stats — persisted for prompt tuning
+// ---------------------------------------------------------------------------
+
+let stats: ValidationStats | null = null;
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function loadStats(): Promise<ValidationStats> {
+  if (stats) return stats;
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    stats = (result[STORAGE_KEY] as ValidationStats | undefined) ?? null;
+  } catch { /* start fresh */ }
+  stats ??= { totals: createEmptyReport(), pages: [] };
+  // Stats written before a rejection reason existed lack its counter
+  stats.totals.rejected = { ...createEmptyReport().rejected, ...stats.totals.rejected };
+  return stats;
+}
+
+export async function recordValidationStats(url: string, report: ValidationReport): Promise<void> {
+  if (report.received === 0) return;
+
+  const current = await loadStats();
+  mergeReports(current.totals, report);
+  current.pages.push({ ...report, rejected: { ...report.rejected }, url: normalizeUrl(url), at: Date.now() });
+  if (current.pages.length > MAX_PAGE_ENTRIES) {
+    current.pages = current.pages.slice(-MAX_PAGE_ENTRIES);
+  }
+
+  const rejected = report.received - report.accepted;
+  if (rejected > 0) {
+    console.log(`[Predictive Browser] Rejected ${rejected}/${report.received} transforms:`, report.rejected);
+  }
+  scheduleWrite();
+}
+
+function scheduleWrite(): void {
+  if (writeTimer) return;
+  writeTimer = setTimeout(async () => {
+    writeTimer = null;
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: stats });
+    } catch (e) {
+      console.error('[Predictive Browser] Failed to write validation stats:', e);
+    }
+  }, WRITE_DEBOUNCE_MS);
+}
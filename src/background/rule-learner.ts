@@ -0,0 +1,283 @@
+// src/background/rule-learner.ts
+// Distills repeated model answers into local rules. Every LLM transform pass
+// is mined per domain: elements are identified across pages by a fingerprint
+// (tag + stable classes, or tag + normalized text — never the per-page
+// data-pb-node id), and an element that gets the same action on nearly every
+// page it appears on is promoted to a LearnedRule. Learned rules apply on the
+// page immediately (via the content rule engine) and their elements are left
+// out of later prompts, so the model only sees the page-specific remainder.
+
+import type { LearnedRule, PageSkeleton, SkeletonNode, TransformAction, TransformInstruction } from '../types/interfaces.js';
+import { hostOf } from '../shared/site-profiles.js';
+import { LEARNED_RULES_STORAGE_KEY } from '../shared/rule-packs.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STATS_STORAGE_KEY = 'ruleLearner';
+
+/** Pages an element must appear on before it can be promoted */
+const MIN_SUPPORT = 5;
+/** Share of those pages on which the model must have picked the same action */
+const MIN_CONFIDENCE = 0.8;
+/** Page-independent actions only — reorder targets and annotation text are page-specific */
+const LEARNABLE_ACTIONS: TransformAction[] = ['collapse', 'dim', 'highlight'];
+
+const MAX_PATTERNS_PER_DOMAIN = 300;
+const MAX_DOMAINS = 100;
+const TEXT_FINGERPRINT_LENGTH = 40;
+const MIN_TEXT_FINGERPRINT_LENGTH = 4;
+const WRITE_DEBOUNCE_MS = 2000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface Fingerprint {
+  key: string;
+  selector: string;
+  textMatch?: string;
+}
+
+interface PatternStats {
+  /** Observed pages containing the element */
+  seen: number;
+  /** Of those, pages where the model applied each action to it */
+  hits: Partial<Record<TransformAction, number>>;
+  lastSeen: number;
+}
+
+interface DomainStats {
+  pages: number;
+  patterns: Record<string, PatternStats>;
+  lastSeen: number;
+}
+
+interface LearnerStats {
+  domains: Record<string, DomainStats>;
+}
+
+// ---------------------------------------------------------------------------
+// Module State
+// ---------------------------------------------------------------------------
+
+let stats: LearnerStats | null = null;
+let rules: LearnedRule[] | null = null;
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function loadStats(): Promise<LearnerStats> {
+  if (stats) return stats;
+  try {
+    const result = await chrome.storage.local.get(STATS_STORAGE_KEY);
+    stats = (result[STATS_STORAGE_KEY] as LearnerStats | undefined) ?? null;
+  } catch { /* start fresh */ }
+  stats ??= { domains: {} };
+  return stats;
+}
+
+async function loadRules(): Promise<LearnedRule[]> {
+  if (rules) return rules;
+  try {
+    const result = await chrome.storage.local.get(LEARNED_RULES_STORAGE_KEY);
+    rules = (result[LEARNED_RULES_STORAGE_KEY] as LearnedRule[] | undefined) ?? null;
+  } catch { /* start fresh */ }
+  rules ??= [];
+  return rules;
+}
+
+function scheduleWrite(): void {
+  if (writeTimer) return;
+  writeTimer = setTimeout(async () => {
+    writeTimer = null;
+    try {
+      await chrome.storage.local.set({ [STATS_STORAGE_KEY]: stats });
+    } catch (e) {
+      console.error('[Predictive Browser] Failed to write rule learner stats:', e);
+    }
+  }, WRITE_DEBOUNCE_MS);
+}
+
+// The options page revokes rules by rewriting the list — pick that up
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'local' && changes[LEARNED_RULES_STORAGE_KEY]) {
+    rules = (changes[LEARNED_RULES_STORAGE_KEY].newValue as LearnedRule[] | undefined) ?? [];
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Drop nodes covered by an active learned rule for this domain (with their
+ * subtrees) — but only those the content script reports it actually matched,
+ * so a rule that found nothing on the live page never hides a node from the model.
+ */
+export async function excludeLearnedNodes(skeleton: PageSkeleton): Promise<{ skeleton: PageSkeleton; covered: number }> {
+  const matched = new Set(skeleton.learnedNodeIds ?? []);
+  if (matched.size === 0) return { skeleton, covered: 0 };
+  const domain = hostOf(skeleton.url);
+  const active = new Set((await loadRules())
+    .filter(r => !r.revoked && r.domain === domain)
+    .map(r => r.fingerprint));
+  if (active.size === 0) return { skeleton, covered: 0 };
+
+  let covered = 0;
+  const prune = (nodes: SkeletonNode[]): SkeletonNode[] => nodes.flatMap(node => {
+    const fp = fingerprintNode(node);
+    if (matched.has(node.id) && fp && active.has(fp.key)) {
+      covered++;
+      return [];
+    }
+    return [{ ...node, children: prune(node.children) }];
+  });
+
+  const nodes = prune(skeleton.nodes);
+  if (covered > 0) {
+    console.log(`[Predictive Browser] ${covered} nodes on ${domain} handled by learned rules`);
+  }
+  return { skeleton: { ...skeleton, nodes }, covered };
+}
+
+/** Record one model answer for the page's domain and promote any pattern that has become stable */
+export async function observeTransforms(skeleton: PageSkeleton, transforms: TransformInstruction[]): Promise<void> {
+  const domain = hostOf(skeleton.url);
+  if (!domain) return;
+
+  const current = await loadStats();
+  const now = Date.now();
+  const domainStats = current.domains[domain] ??= { pages: 0, patterns: {}, lastSeen: now };
+  domainStats.pages++;
+  domainStats.lastSeen = now;
+
+  const actionByNode = new Map<string, TransformAction>();
+  for (const t of transforms) {
+    const id = t.selector.match(/node-\d+/)?.[0];
+    if (id && !actionByNode.has(id)) actionByNode.set(id, t.action);
+  }
+
+  // Fingerprints that occur more than once on a page can't say which element the model meant
+  const byKey = new Map<string, { fp: Fingerprint; node: SkeletonNode; count: number }>();
+  walk(skeleton.nodes, node => {
+    const fp = fingerprintNode(node);
+    if (!fp) return;
+    const entry = byKey.get(fp.key);
+    if (entry) entry.count++;
+    else byKey.set(fp.key, { fp, node, count: 1 });
+  });
+
+  const candidates: { fp: Fingerprint; pattern: PatternStats }[] = [];
+  for (const { fp, node, count } of byKey.values()) {
+    if (count > 1) continue;
+    const pattern = domainStats.patterns[fp.key] ??= { seen: 0, hits: {}, lastSeen: now };
+    pattern.seen++;
+    pattern.lastSeen = now;
+    const action = actionByNode.get(node.id);
+    if (action) {
+      pattern.hits[action] = (pattern.hits[action] ?? 0) + 1;
+      candidates.push({ fp, pattern });
+    }
+  }
+
+  prunePatterns(domainStats);
+  pruneDomains(current);
+  scheduleWrite();
+
+  await promote(domain, candidates);
+}
+
+// ---------------------------------------------------------------------------
+// Promotion
+// ---------------------------------------------------------------------------
+
+async function promote(domain: string, candidates: { fp: Fingerprint; pattern: PatternStats }[]): Promise<void> {
+  const existing = await loadRules();
+  const learned: LearnedRule[] = [];
+
+  for (const { fp, pattern } of candidates) {
+    if (pattern.seen < MIN_SUPPORT) continue;
+    // Revoked rules count as existing — the user already said no to this pattern
+    if (existing.some(r => r.domain === domain && r.fingerprint === fp.key)) continue;
+
+    const [action, hits] = LEARNABLE_ACTIONS
+      .map(a => [a, pattern.hits[a] ?? 0] as const)
+      .sort((a, b) => b[1] - a[1])[0];
+    const confidence = hits / pattern.seen;
+    if (confidence < MIN_CONFIDENCE) continue;
+
+    learned.push({
+      id: `learned-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      domain,
+      fingerprint: fp.key,
+      selector: fp.selector,
+      textMatch: fp.textMatch,
+      action,
+      confidence: Math.round(confidence * 100) / 100,
+      support: pattern.seen,
+      learnedAt: Date.now(),
+      revoked: false,
+    });
+  }
+  if (learned.length === 0) return;
+
+  rules = [...existing, ...learned];
+  try {
+    await chrome.storage.local.set({ [LEARNED_RULES_STORAGE_KEY]: rules });
+    console.log(`[Predictive Browser] Learned ${learned.length} rules for ${domain}:`,
+      learned.map(r => `${r.action} ${r.fingerprint}`));
+  } catch (e) {
+    console.error('[Predictive Browser] Failed to save learned rules:', e);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fingerprints
+// ---------------------------------------------------------------------------
+
+/**
+ * Cross-page identity for a node: "footer.site-footer" from stable classes, or
+ * "footer~about us" from its text when it has none. Text with digits (dates,
+ * counts) is too page-specific to fingerprint.
+ */
+function fingerprintNode(node: SkeletonNode): Fingerprint | null {
+  if (node.classList && node.classList.length > 0) {
+    const selector = `${node.tag}.${node.classList.join('.')}`;
+    return { key: selector, selector };
+  }
+
+  const text = node.textPreview.replace(/\s+/g, ' ').trim().slice(0, TEXT_FINGERPRINT_LENGTH).trim();
+  if (text.length < MIN_TEXT_FINGERPRINT_LENGTH || /\d/.test(text)) return null;
+  return { key: `${node.tag}~${text.toLowerCase()}`, selector: node.tag, textMatch: text };
+}
+
+function walk(nodes: SkeletonNode[], callback: (node: SkeletonNode) => void): void {
+  for (const node of nodes) {
+    callback(node);
+    walk(node.children, callback);
+  }
+}
+
+/** Keep the most recently seen patterns — ones the model acted on first */
+function prunePatterns(domain: DomainStats): void {
+  const keys = Object.keys(domain.patterns);
+  if (keys.length <= MAX_PATTERNS_PER_DOMAIN) return;
+  const hasHits = (p: PatternStats): number => Object.keys(p.hits).length > 0 ? 1 : 0;
+  keys
+    .sort((a, b) => {
+      const pa = domain.patterns[a];
+      const pb = domain.patterns[b];
+      return hasHits(pa) - hasHits(pb) || pa.lastSeen - pb.lastSeen;
+    })
+    .slice(0, keys.length - MAX_PATTERNS_PER_DOMAIN)
+    .forEach(key => delete domain.patterns[key]);
+}
+
+function pruneDomains(current: LearnerStats): void {
+  const domains = Object.keys(current.domains);
+  if (domains.length <= MAX_DOMAINS) return;
+  domains
+    .sort((a, b) => current.domains[a].lastSeen - current.domains[b].lastSeen)
+    .slice(0, domains.length - MAX_DOMAINS)
+    .forEach(domain => delete current.domains[domain]);
+}
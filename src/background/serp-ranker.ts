@@ -0,0 +1,187 @@
+// src/background/serp-ranker.ts
+// Search results page mode: re-rank the organic results the content script
+// scraped (title, URL, snippet) against the topic model and the user's own
+// history with each result's domain. Results from domains the user stays on
+// float up, weak matches are dimmed, and domains the user keeps bouncing from
+// are flagged. Runs locally — no model call.
+
+import type {
+  SerpResult,
+  SkeletonNode,
+  DomainProfile,
+  EnhancedUserProfile,
+  TransformInstruction,
+  TransformResponse,
+} from '../types/interfaces.js';
+import { buildQueryTerms, scoreNodes } from './relevance-scorer.js';
+import { hostOf } from '../shared/site-profiles.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Domain history needs a few visits before it says anything */
+const MIN_DOMAIN_VISITS = 3;
+/** Share of visits that were bounces above which a domain is flagged */
+const BOUNCE_RATE = 0.6;
+/** Average dwell at which a domain gets the full affinity boost */
+const ENGAGED_DWELL_MS = 60000;
+/** How much domain affinity (-1..1) counts against text relevance (0..1) */
+const DOMAIN_WEIGHT = 0.35;
+
+const MAX_PROMOTED = 3;
+/** Only results scoring at least this share of the best are moved up */
+const PROMOTE_SCORE = 0.5;
+/** Results scoring under this share of the best are dimmed... */
+const DIM_SCORE = 0.15;
+/** ...except the engine's own top few, which are left where they are */
+const PROTECTED_TOP = 3;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface RankedResult {
+  result: SerpResult;
+  domain: string;
+  /** BM25 match against the user's query terms, as a share of the best result (0–1) */
+  relevance: number;
+  /** -1 for a bounce domain, 0 for unknown, up to 1 for domains the user stays on */
+  affinity: number;
+  bounce: { bounces: number; visits: number } | null;
+  score: number;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function rankSerpResults(
+  results: SerpResult[],
+  profile: EnhancedUserProfile,
+  domainProfiles: DomainProfile[]
+): TransformResponse {
+  const ranked = scoreResults(results, profile, domainProfiles);
+  const transforms: TransformInstruction[] = [];
+  const handled = new Set<string>();
+  const best = Math.max(...ranked.map(r => r.score), 0);
+
+  // Promote the best results that aren't already at the top, in score order,
+  // above the first result that isn't being promoted
+  const promoted = [...ranked]
+    .filter(r => r.score > 0 && r.score >= best * PROMOTE_SCORE && !r.bounce)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PROMOTED);
+  const promotedIds = new Set(promoted.map(r => r.result.id));
+  const anchor = ranked.find(r => !promotedIds.has(r.result.id));
+  if (anchor) {
+    for (const r of promoted) {
+      if (r.result.rank < anchor.result.rank) continue;
+      transforms.push({
+        selector: r.result.selector,
+        action: "reorder",
+        position: `above:${anchor.result.selector}`,
+        reason: r.affinity > 0 ? `Matches your interests; you spend time on ${r.domain}` : "Closest match to your interests",
+        relevance: toRelevance(r.score),
+      });
+      handled.add(r.result.id);
+    }
+  }
+
+  for (const r of ranked) {
+    if (handled.has(r.result.id)) continue;
+    if (r.bounce) {
+      transforms.push({
+        selector: r.result.selector,
+        action: "annotate",
+        annotation: `↩ You usually leave ${r.domain} quickly`,
+        reason: `Bounced on ${r.bounce.bounces} of ${r.bounce.visits} visits`,
+        relevance: toRelevance(r.score),
+      });
+    }
+  }
+
+  // With no query terms at all every result scores 0 — nothing to dim against
+  if (best > 0) {
+    for (const r of ranked) {
+      if (handled.has(r.result.id) || r.bounce || r.result.rank < PROTECTED_TOP) continue;
+      if (r.score < best * DIM_SCORE) {
+        transforms.push({
+          selector: r.result.selector,
+          action: "dim",
+          reason: "Little overlap with your interests",
+          relevance: toRelevance(r.score),
+        });
+      }
+    }
+  }
+
+  const count = (action: string): number => transforms.filter(t => t.action === action).length;
+  const query = profile.inboundSearchQuery;
+  return {
+    transforms,
+    summary: `Re-ranked ${results.length} results: ${count("reorder")} moved up, ${count("dim")} dimmed, ${count("annotate")} flagged.`,
+    inferredIntent: query ? `Searching for "${query}"` : "Searching",
+    source: "local",
+    pageType: "search",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+function scoreResults(
+  results: SerpResult[],
+  profile: EnhancedUserProfile,
+  domainProfiles: DomainProfile[]
+): RankedResult[] {
+  // Results scored as link nodes so the URL path counts, with the page's results as the corpus
+  const nodes: SkeletonNode[] = results.map(r => ({
+    id: r.id,
+    selector: r.selector,
+    type: "link",
+    textPreview: `${r.title} ${r.snippet}`,
+    tag: "a",
+    href: r.url,
+    children: [],
+  }));
+  const scores = scoreNodes(nodes, buildQueryTerms(profile));
+  const bestText = Math.max(...scores.values(), 0);
+
+  return results.map(result => {
+    const domain = hostOf(result.url);
+    const history = findDomainProfile(domain, domainProfiles);
+    const relevance = bestText > 0 ? (scores.get(result.id) ?? 0) / bestText : 0;
+
+    let affinity = 0;
+    let bounce: RankedResult["bounce"] = null;
+    if (history && history.visitCount >= MIN_DOMAIN_VISITS) {
+      const bounces = history.bounceCount ?? 0;
+      if (bounces / history.visitCount >= BOUNCE_RATE) {
+        affinity = -1;
+        bounce = { bounces, visits: history.visitCount };
+      } else {
+        affinity = Math.min(1, history.avgDwellTime / ENGAGED_DWELL_MS);
+      }
+    }
+
+    return { result, domain, relevance, affinity, bounce, score: Math.max(0, relevance + DOMAIN_WEIGHT * affinity) };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The most specific stored domain covering this host (docs.example.com before example.com) */
+function findDomainProfile(domain: string, profiles: DomainProfile[]): DomainProfile | undefined {
+  if (!domain) return undefined;
+  return profiles
+    .filter(p => domain === p.domain || domain.endsWith(`.${p.domain}`))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+}
+
+function toRelevance(score: number): number {
+  return Math.round(Math.min(1, score) * 100);
+}
@@ -1,22 +1,48 @@
 import { ProfileManager } from './profile-manager.js';
-import { generateTransforms, generateLinkPreviews, invalidateSettingsCache } from './llm-engine.js';
+import { generateTransforms, generateLinkPreviews, invalidateSettingsCache, getSettings, listAvailableModels } from './llm-engine.js';
+import {
+  buildCacheKey,
+  getCachedTransforms,
+  getCachedLinkPreviews,
+  cacheTransforms,
+  cacheLinkPreviews,
+  invalidateTransformCache,
+} from './transform-cache.js';
+import { getLLMStatus, LLMUnavailableError } from './rate-limiter.js';
+import { startTabJob, finishTabJob, deltaJobSignal, isJobCurrent, isCancellation, sendToJobTab } from './tab-jobs.js';
+import type { TabJob } from './tab-jobs.js';
+import { scheduleRequest } from './request-scheduler.js';
+import { attachLocalScores } from './relevance-scorer.js';
+import { recordPageGuardDecision } from './page-guard-log.js';
+import { rankSerpResults } from './serp-ranker.js';
 import {
   initializeAggregator,
   processPageSignal,
   processEngagementEvent,
   buildEnhancedProfile,
+  getDomainProfiles,
 } from './signal-aggregator.js';
 import type {
   ExtensionMessage,
   SkeletonMessage,
+  SkeletonDeltaMessage,
   TransformMessage,
   ErrorMessage,
   PageSignalsMessage,
   EngagementEventMessage,
+  PageGuardMessage,
+  SerpResultsMessage,
+  RouteChangedMessage,
+  ToggleOriginalViewMessage,
   LinkPreviewMessage,
-  ExtensionSettings,
+  ListModelsMessage,
+  ModelsListedMessage,
+  TransformResponse,
+  TransformPartialMessage,
+  PartialTransformUpdate,
+  PageSkeleton,
 } from '../types/interfaces.js';
-import { DEFAULT_SETTINGS } from '../types/interfaces.js';
+import { TRANSFORM_PORT_NAME, TOGGLE_VIEW_COMMAND } from '../types/interfaces.js';
 
 // ---------------------------------------------------------------------------
 // Module-level singletons — service workers are event-driven, not persistent,
@@ -60,6 +86,11 @@ chrome.runtime.onMessage.addListener(
       return true; // Required to keep the message channel open for async response
     }
 
+    if (message.type === "SKELETON_DELTA") {
+      handleSkeletonDelta(message as SkeletonDeltaMessage, sender, sendResponse);
+      return true;
+    }
+
     if (message.type === "PAGE_SIGNALS") {
       handlePageSignals(message as PageSignalsMessage);
       return false;
@@ -70,8 +101,20 @@ chrome.runtime.onMessage.addListener(
       return false;
     }
 
+    if (message.type === "PAGE_GUARD_DECISION") {
+      const { url, decision } = (message as PageGuardMessage).payload;
+      recordPageGuardDecision(url, decision);
+      return false;
+    }
+
+    if (message.type === "SERP_RESULTS") {
+      handleSerpResults(message as SerpResultsMessage, sendResponse);
+      return true;
+    }
+
     if (message.type === "SETTINGS_UPDATED") {
       invalidateSettingsCache();
+      refreshTransformCache();
       console.log("[Predictive Browser] Settings updated");
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       (sendResponse as (r: any) => void)({ type: "SETTINGS_ACKNOWLEDGED" });
@@ -82,6 +125,7 @@ chrome.runtime.onMessage.addListener(
       const focus = (message as unknown as { payload?: { focus?: string } }).payload?.focus ?? "";
       ensureInitialized()
         .then(() => profileManager.updateFocus(focus))
+        .then(() => refreshTransformCache())
         .then(() => {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           (sendResponse as (r: any) => void)({ type: "FOCUS_UPDATED" });
@@ -94,10 +138,59 @@ chrome.runtime.onMessage.addListener(
       return true;
     }
 
+    if (message.type === "LIST_MODELS") {
+      handleListModels(message as ListModelsMessage, sendResponse);
+      return true;
+    }
+
     return false;
   }
 );
 
+// ---------------------------------------------------------------------------
+// SPA route changes — backs up the page-world history hook, which misses pages
+// that captured history.pushState before it was installed
+// ---------------------------------------------------------------------------
+
+chrome.webNavigation.onHistoryStateUpdated.addListener((details) => {
+  if (details.frameId !== 0) return;
+  const msg: RouteChangedMessage = { type: "ROUTE_CHANGED", payload: { url: details.url } };
+  chrome.tabs.sendMessage(details.tabId, msg, { frameId: 0 }).catch(() => { /* no content script in this tab */ });
+});
+
+// ---------------------------------------------------------------------------
+// Keyboard shortcut — original / predicted toggle in the active tab
+// ---------------------------------------------------------------------------
+
+chrome.commands.onCommand.addListener((command, tab) => {
+  if (command !== TOGGLE_VIEW_COMMAND || tab?.id === undefined) return;
+  const msg: ToggleOriginalViewMessage = { type: "TOGGLE_ORIGINAL_VIEW" };
+  chrome.tabs.sendMessage(tab.id, msg, { frameId: 0 }).catch(() => { /* no content script in this tab */ });
+});
+
+// ---------------------------------------------------------------------------
+// Streaming Port — the content script connects here to receive transforms
+// batch by batch while the model is still answering
+// ---------------------------------------------------------------------------
+
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== TRANSFORM_PORT_NAME) return;
+
+  let connected = true;
+  port.onDisconnect.addListener(() => { connected = false; });
+
+  const post = (msg: TransformMessage | TransformPartialMessage | ErrorMessage): void => {
+    if (connected) port.postMessage(msg);
+  };
+
+  port.onMessage.addListener((message: ExtensionMessage) => {
+    if (message.type !== "SKELETON_READY") return;
+    handleSkeleton(message, port.sender ?? {}, post, (update) => {
+      post({ type: "TRANSFORMS_PARTIAL", payload: update });
+    });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Handlers
 // ---------------------------------------------------------------------------
@@ -105,12 +198,19 @@ chrome.runtime.onMessage.addListener(
 async function handleSkeleton(
   message: SkeletonMessage,
   sender: chrome.runtime.MessageSender,
-  sendResponse: (response: TransformMessage | ErrorMessage) => void
+  sendResponse: (response: TransformMessage | ErrorMessage) => void,
+  onPartial?: (update: PartialTransformUpdate) => void
 ): Promise<void> {
+  // One job per tab: a newer skeleton, a navigation or closing the tab cancels this one
+  const tabId = sender.tab?.id;
+  const job: TabJob | null = tabId !== undefined
+    ? startTabJob(tabId, message.payload.url, sender.documentId)
+    : null;
+  let handedOff = false;
+
   try {
     // Check if extension is enabled
-    const stored = await chrome.storage.local.get("extensionSettings");
-    const settings: ExtensionSettings = { ...DEFAULT_SETTINGS, ...stored["extensionSettings"] };
+    const settings = await getSettings();
     if (!settings.enabled) {
       console.log("[Predictive Browser] Extension is disabled, skipping transforms");
       sendResponse({
@@ -132,39 +232,177 @@ async function handleSkeleton(
     // Build enhanced profile with all signals
     const enhancedProfile = buildEnhancedProfile(baseProfile, openTabTitles, searchQuery);
 
+    // Lexical pre-score, stored on the nodes for every pass that follows
+    const nodeScores = attachLocalScores(message.payload, enhancedProfile);
+
     console.log("[Predictive Browser] Processing skeleton for:", message.payload.url);
     console.log("[Predictive Browser] Enhanced profile — topics:", enhancedProfile.topicModel.length,
       "session URLs:", enhancedProfile.currentSession?.urls.length ?? 0);
 
-    const transforms = await generateTransforms(message.payload, enhancedProfile);
+    // Same page + same profile inputs as a recent pass → apply instantly
+    const cacheKey = buildCacheKey(message.payload, enhancedProfile, settings);
+    const cached = await getCachedTransforms(cacheKey);
 
-    console.log("[Predictive Browser] Generated", transforms.transforms.length, "transforms");
+    let transforms: TransformResponse;
+    if (cached) {
+      transforms = cached;
+      console.log("[Predictive Browser] Cache hit —", transforms.transforms.length, "transforms");
+    } else {
+      // Queued behind the visible tab; a twin tab on the same page shares this pass
+      // (only the first caller streams partials — later ones get the final result)
+      transforms = await scheduleRequest(
+        { key: cacheKey.key, kind: "transform", tabId, signal: job?.signal },
+        (signal) => generateTransforms(message.payload, enhancedProfile, onPartial, signal)
+      );
+      console.log("[Predictive Browser] Generated", transforms.transforms.length, "transforms");
+      if (transforms.source === "llm") await cacheTransforms(cacheKey, transforms);
+
+      // Offline fallback after a rate limit / quota / outage — tell the page why
+      const llmStatus = getLLMStatus();
+      if (llmStatus.state !== "ok") transforms = { ...transforms, llmStatus };
+    }
 
+    if (job && !isJobCurrent(job)) return;
     sendResponse({
       type: "TRANSFORMS_READY",
-      payload: transforms
+      payload: { ...transforms, nodeScores }
     });
 
-    // Fire-and-forget: second pass for link previews
-    const tabId = sender.tab?.id;
-    if (tabId !== undefined) {
-      generateLinkPreviews(message.payload, enhancedProfile)
-        .then((result) => {
-          if (result.previews.length > 0) {
+    // Fire-and-forget: second pass for link previews — runs under the same job
+    if (job) {
+      handedOff = true;
+      const cachedPreviews = cached ? await getCachedLinkPreviews(cacheKey) : null;
+      (cachedPreviews
+        ? Promise.resolve(cachedPreviews)
+        : scheduleRequest(
+            { key: cacheKey.key, kind: "linkPreviews", tabId: job.tabId, signal: job.signal },
+            (signal) => generateLinkPreviews(message.payload, enhancedProfile, signal)
+          ).then(async (result) => {
+            if (result.previews.length > 0) await cacheLinkPreviews(cacheKey, result);
+            return result;
+          }))
+        .then(async (result) => {
+          if (result.previews.length > 0 && isJobCurrent(job)) {
             const msg: LinkPreviewMessage = {
               type: "LINK_PREVIEWS_READY",
               payload: result
             };
-            chrome.tabs.sendMessage(tabId, msg);
-            console.log("[Predictive Browser] Sent", result.previews.length, "link previews to tab", tabId);
+            await sendToJobTab(job, msg);
+            console.log("[Predictive Browser] Sent", result.previews.length, "link previews to tab", job.tabId);
           }
         })
         .catch((err) => {
+          if (isCancellation(err, job.signal)) return;
           console.warn("[Predictive Browser] Link preview second pass failed (non-fatal):", err);
-        });
+        })
+        .finally(() => finishTabJob(job));
     }
   } catch (error) {
+    if (isCancellation(error, job?.signal)) {
+      console.log("[Predictive Browser] Transform pass cancelled for:", message.payload.url);
+      return;
+    }
     console.error("[Predictive Browser] Error:", error);
+    const llmStatus = error instanceof LLMUnavailableError ? error.status : getLLMStatus();
+    sendResponse({
+      type: "TRANSFORM_ERROR",
+      payload: {
+        message: error instanceof Error ? error.message : "Unknown error",
+        status: llmStatus.state !== "ok" ? llmStatus : undefined
+      }
+    });
+  } finally {
+    if (job && !handedOff) finishTabJob(job);
+  }
+}
+
+/**
+ * Incremental pass over content added after the page's first pass. Not a tab
+ * job — starting one would cancel the page's own pass if it's still running —
+ * but aborted all the same when the tab navigates or closes (deltaJobSignal).
+ * Not cached: the same batch of new nodes won't come around again.
+ */
+async function handleSkeletonDelta(
+  message: SkeletonDeltaMessage,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: TransformMessage | ErrorMessage) => void
+): Promise<void> {
+  const tabId = sender.tab?.id;
+  const signal = tabId !== undefined ? deltaJobSignal(tabId, message.payload.url) : undefined;
+  try {
+    const settings = await getSettings();
+    if (!settings.enabled) {
+      sendResponse({ type: "TRANSFORMS_READY", payload: { transforms: [], summary: "", inferredIntent: "" } });
+      return;
+    }
+
+    await ensureInitialized();
+    const { url, title, metaDescription, pageFeatures, pageType, nodes, inferredIntent, learnedNodeIds } = message.payload;
+    const profile = buildEnhancedProfile(
+      profileManager.getProfile(),
+      await getOpenTabTitles(),
+      extractSearchQueryFromUrl(url)
+    );
+    // Page-level context comes from the first pass — the new subtrees alone would misclassify the page
+    const skeleton: PageSkeleton = {
+      url, title, metaDescription, nodes, extractedAt: Date.now(), pageFeatures, pageType, learnedNodeIds,
+    };
+    const nodeScores = attachLocalScores(skeleton, profile);
+
+    console.log(`[Predictive Browser] Delta pass: ${nodes.length} new subtrees on ${url}`);
+    const transforms = await scheduleRequest(
+      { key: `delta:${url}#${nodes[0]?.id ?? ""}`, kind: "transform", tabId, signal },
+      (signal) => generateTransforms(skeleton, profile, undefined, signal, inferredIntent)
+    );
+    sendResponse({ type: "TRANSFORMS_READY", payload: { ...transforms, nodeScores } });
+  } catch (error) {
+    if (isCancellation(error, signal)) {
+      console.log("[Predictive Browser] Delta pass cancelled for:", message.payload.url);
+      sendResponse({ type: "TRANSFORM_ERROR", payload: { message: "Cancelled: tab moved on" } });
+      return;
+    }
+    console.error("[Predictive Browser] Delta pass failed:", error);
+    const llmStatus = error instanceof LLMUnavailableError ? error.status : getLLMStatus();
+    sendResponse({
+      type: "TRANSFORM_ERROR",
+      payload: {
+        message: error instanceof Error ? error.message : "Unknown error",
+        status: llmStatus.state !== "ok" ? llmStatus : undefined
+      }
+    });
+  }
+}
+
+async function handleListModels(
+  message: ListModelsMessage,
+  sendResponse: (response: ModelsListedMessage) => void
+): Promise<void> {
+  try {
+    const models = await listAvailableModels(message.payload ?? {});
+    sendResponse({ type: "MODELS_LISTED", models });
+  } catch (error) {
+    console.warn("[Predictive Browser] Could not list models:", error);
+    sendResponse({ type: "MODELS_LISTED", models: [], error: String(error) });
+  }
+}
+
+async function handleSerpResults(
+  message: SerpResultsMessage,
+  sendResponse: (response: TransformMessage | ErrorMessage) => void
+): Promise<void> {
+  try {
+    await ensureInitialized();
+    const { url, results } = message.payload;
+    const profile = buildEnhancedProfile(
+      profileManager.getProfile(),
+      await getOpenTabTitles(),
+      extractSearchQueryFromUrl(url)
+    );
+    const response = rankSerpResults(results, profile, getDomainProfiles());
+    console.log("[Predictive Browser] SERP re-ranked:", response.summary);
+    sendResponse({ type: "TRANSFORMS_READY", payload: response });
+  } catch (error) {
+    console.error("[Predictive Browser] SERP ranking failed:", error);
     sendResponse({
       type: "TRANSFORM_ERROR",
       payload: { message: error instanceof Error ? error.message : "Unknown error" }
@@ -195,6 +433,16 @@ function handleEngagementEvent(message: EngagementEventMessage): void {
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** Drop cached transforms built under a focus/settings combination that no longer applies */
+async function refreshTransformCache(): Promise<void> {
+  try {
+    await ensureInitialized();
+    await invalidateTransformCache(profileManager.getProfile().currentFocus, await getSettings());
+  } catch (err) {
+    console.warn("[Predictive Browser] Failed to invalidate transform cache:", err);
+  }
+}
+
 const SEARCH_PARAMS = ['q', 'query', 'search_query', 'p'];
 
 function extractSearchQueryFromUrl(url: string): string {
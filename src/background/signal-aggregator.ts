@@ -41,6 +41,10 @@ const SCORE_HIGH_ENGAGEMENT = 2.0;
 const SCORE_NORMAL_VISIT = 1.0;
 const SCORE_CLICK_HIGHLIGHT = 2.5;
 
+// A visit this short with this little scrolling counts as a bounce
+const BOUNCE_DWELL_MS = 10000;
+const BOUNCE_SCROLL_DEPTH = 25;
+
 // Decay constant
 const DECAY_LAMBDA = 0.1;
 
@@ -238,9 +242,11 @@ function updateDomainProfile(signal: PageVisitSignal): void {
     return;
   }
 
+  const bounced = signal.dwellTime < BOUNCE_DWELL_MS && signal.scrollDepth < BOUNCE_SCROLL_DEPTH;
   const existing = store.domainProfiles.find(d => d.domain === domain);
   if (existing) {
     existing.visitCount++;
+    if (bounced) existing.bounceCount = (existing.bounceCount ?? 0) + 1;
     // Running average
     existing.avgDwellTime =
       (existing.avgDwellTime * (existing.visitCount - 1) + signal.dwellTime) /
@@ -265,6 +271,7 @@ function updateDomainProfile(signal: PageVisitSignal): void {
       avgScrollDepth: signal.scrollDepth,
       lastVisited: Date.now(),
       topics: extractTopics(signal).slice(0, 3),
+      bounceCount: bounced ? 1 : 0,
     });
   }
 
@@ -275,6 +282,11 @@ function updateDomainProfile(signal: PageVisitSignal): void {
   }
 }
 
+/** Per-domain dwell / bounce history — read by the SERP ranker */
+export function getDomainProfiles(): DomainProfile[] {
+  return store.domainProfiles;
+}
+
 // ---------------------------------------------------------------------------
 // Session Detection (30min gap = new session)
 // ---------------------------------------------------------------------------
@@ -348,6 +360,8 @@ function updateTemporalBucket(topics: string[]): void {
 // ---------------------------------------------------------------------------
 
 function updateTransformFeedback(signal: PageVisitSignal): void {
+  const version = signal.templateVersion;
+
   // Count applied transforms by action type
   for (const t of signal.appliedTransforms) {
     let fb = store.transformFeedback.find(f => f.action === t.action);
@@ -356,15 +370,24 @@ function updateTransformFeedback(signal: PageVisitSignal): void {
       store.transformFeedback.push(fb);
     }
     fb.appliedCount++;
+    if (version) templateCounts(fb, version).appliedCount++;
   }
 
   // Count engagements by the action type of the engaged element
   for (const e of signal.engagements) {
     const fb = store.transformFeedback.find(f => f.action === e.action);
-    if (fb) fb.engagedCount++;
+    if (fb) {
+      fb.engagedCount++;
+      if (version) templateCounts(fb, version).engagedCount++;
+    }
   }
 }
 
+function templateCounts(fb: TransformFeedback, version: string): { appliedCount: number; engagedCount: number } {
+  fb.byTemplateVersion ??= {};
+  return fb.byTemplateVersion[version] ??= { appliedCount: 0, engagedCount: 0 };
+}
+
 // ---------------------------------------------------------------------------
 // Build Enhanced Profile for LLM
 // ---------------------------------------------------------------------------
@@ -0,0 +1,222 @@
+// src/background/skeleton-serializer.ts
+// Compact, token-budgeted rendering of the page skeleton for prompts.
+// One indented outline line per node, keyed by node id, instead of raw JSON.
+// Pages over the budget are pruned by priority: node type, depth, the local
+// relevance pre-score, above-the-fold position, text size and DOM order.
+
+import type { PageSkeleton, SkeletonNode, UserProfile, EnhancedUserProfile } from '../types/interfaces.js';
+import { attachLocalScores } from './relevance-scorer.js';
+import { estimateTokenCount } from './rate-limiter.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const TYPE_PRIORITY: Record<SkeletonNode["type"], number> = {
+  heading: 3,
+  section: 2.5,
+  list: 2,
+  link: 1.5,
+  form: 1.5,
+  text: 1.2,
+  nav: 1,
+  image: 0.8,
+  unknown: 0.5,
+};
+
+const DEPTH_PENALTY = 0.5;
+const RELEVANCE_WEIGHT = 4;
+const ABOVE_FOLD_BONUS = 1.5;
+const ORDER_WEIGHT = 1;
+const MAX_HREF_LENGTH = 60;
+
+// Layout tags — only the extremes are worth the tokens
+/** Font size (px) from which a node is tagged [large] */
+const LARGE_FONT_SIZE = 22;
+/** Font size (px) up to which a node is tagged [small] — fine print, footers */
+const SMALL_FONT_SIZE = 12;
+/** Share of the viewport's area from which a node on screen is tagged [large] */
+const LARGE_AREA_SHARE = 0.3;
+const LARGE_BONUS = 1;
+const SMALL_PENALTY = 1;
+
+const NODE_REF = /^node-\d+$/;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SerializedSkeleton {
+  /** Outline text to embed in the prompt */
+  text: string;
+  /** Estimated tokens of `text` */
+  tokens: number;
+  totalNodes: number;
+  keptNodes: number;
+}
+
+interface FlatNode {
+  node: SkeletonNode;
+  parent: FlatNode | null;
+  depth: number;
+  order: number;
+  line: string;
+  tokens: number;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Render the skeleton as an outline. With a positive `budgetTokens` and a page
+ * that doesn't fit, only the highest-priority nodes (plus their ancestors, so
+ * the outline stays well-formed) are kept.
+ */
+export function serializeSkeleton(
+  skeleton: PageSkeleton,
+  profile: UserProfile | EnhancedUserProfile,
+  budgetTokens: number
+): SerializedSkeleton {
+  const viewportArea = skeleton.viewport ? skeleton.viewport.width * skeleton.viewport.height : 0;
+  const flat = flatten(skeleton.nodes, viewportArea);
+  const fullTokens = flat.reduce((sum, f) => sum + f.tokens, 0);
+  const totalNodes = flat.filter(f => f.node.selector).length;
+
+  if (budgetTokens <= 0 || fullTokens <= budgetTokens) {
+    const text = render(skeleton.nodes, flat, null);
+    return { text, tokens: estimateTokenCount(text), totalNodes, keptNodes: totalNodes };
+  }
+
+  const kept = selectWithinBudget(flat, skeleton, profile, budgetTokens, viewportArea);
+  const text = render(skeleton.nodes, flat, kept);
+  return { text, tokens: estimateTokenCount(text), totalNodes, keptNodes: kept.size };
+}
+
+/**
+ * The prompt asks for node ids; models sometimes return the bare id instead of
+ * the full selector. Map it back to the data-pb-node selector the page resolves.
+ */
+export function toNodeSelector(ref: string): string {
+  const trimmed = ref.trim();
+  return NODE_REF.test(trimmed) ? `[data-pb-node="${trimmed}"]` : trimmed;
+}
+
+// ---------------------------------------------------------------------------
+// Flattening + Line Format
+// ---------------------------------------------------------------------------
+
+function flatten(nodes: SkeletonNode[], viewportArea: number): FlatNode[] {
+  const flat: FlatNode[] = [];
+  const walk = (list: SkeletonNode[], parent: FlatNode | null, depth: number): void => {
+    for (const node of list) {
+      const line = formatLine(node, depth, viewportArea);
+      const entry: FlatNode = { node, parent, depth, order: flat.length, line, tokens: estimateTokenCount(line) + 1 };
+      flat.push(entry);
+      walk(node.children, entry, depth + 1);
+    }
+  };
+  walk(nodes, null, 0);
+  return flat;
+}
+
+/** e.g. `  node-12 heading h2 "Open roles" [fold large]` or `    node-40 link a "Apply" -> /jobs/42` */
+function formatLine(node: SkeletonNode, depth: number, viewportArea: number): string {
+  const indent = "  ".repeat(depth);
+  // Synthetic "... N more items" markers have no selector — show them as plain notes
+  if (!node.selector) return `${indent}(${node.textPreview})`;
+
+  const ref = node.selector.match(/data-pb-node="([^"]+)"/)?.[1] ?? node.selector;
+  const parts = [ref, node.type === "unknown" ? node.tag : `${node.type} ${node.tag}`];
+  if (node.textPreview) parts.push(JSON.stringify(node.textPreview));
+  if (node.alt && node.alt !== node.textPreview) parts.push(`alt=${JSON.stringify(node.alt)}`);
+  if (node.href) parts.push(`-> ${node.href.slice(0, MAX_HREF_LENGTH)}`);
+  const tags = [node.aboveFold ? "fold" : "", sizeTag(node, viewportArea)].filter(Boolean);
+  if (tags.length > 0) parts.push(`[${tags.join(" ")}]`);
+  return indent + parts.join(" ");
+}
+
+/** "large" for big text or a block filling much of the screen, "small" for fine print; null when unremarkable or unmeasured */
+function sizeTag(node: SkeletonNode, viewportArea: number): "large" | "small" | null {
+  const layout = node.layout;
+  if (!layout) return null;
+  if (layout.fontSize >= LARGE_FONT_SIZE) return "large";
+  const onScreen = layout.width * layout.height * layout.visibleFraction;
+  if (viewportArea > 0 && onScreen >= LARGE_AREA_SHARE * viewportArea) return "large";
+  if (layout.fontSize <= SMALL_FONT_SIZE) return "small";
+  return null;
+}
+
+function render(nodes: SkeletonNode[], flat: FlatNode[], kept: Set<SkeletonNode> | null): string {
+  const lines: string[] = [];
+  const byNode = new Map(flat.map(f => [f.node, f]));
+
+  const walk = (list: SkeletonNode[], depth: number): void => {
+    let omitted = 0;
+    for (const node of list) {
+      if (kept && !kept.has(node)) {
+        omitted++;
+        continue;
+      }
+      lines.push(byNode.get(node)!.line);
+      walk(node.children, depth + 1);
+    }
+    if (omitted > 0) lines.push(`${"  ".repeat(depth)}(${omitted} more omitted)`);
+  };
+  walk(nodes, 0);
+
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Pruning
+// ---------------------------------------------------------------------------
+
+function selectWithinBudget(
+  flat: FlatNode[],
+  skeleton: PageSkeleton,
+  profile: UserProfile | EnhancedUserProfile,
+  budgetTokens: number,
+  viewportArea: number
+): Set<SkeletonNode> {
+  // Normally scored once by the service worker; score here if the skeleton came in bare
+  if (!flat.some(f => f.node.localScore !== undefined)) attachLocalScores(skeleton, profile);
+
+  const priority = (f: FlatNode): number => {
+    const relevance = f.node.localScore ?? 0;
+    return TYPE_PRIORITY[f.node.type]
+      - DEPTH_PENALTY * f.depth
+      + RELEVANCE_WEIGHT * relevance
+      + (f.node.aboveFold ? ABOVE_FOLD_BONUS : 0)
+      + sizePriority(sizeTag(f.node, viewportArea))
+      + ORDER_WEIGHT * (1 - f.order / flat.length);
+  };
+
+  const ranked = flat
+    .filter(f => f.node.selector)
+    .map(f => ({ f, p: priority(f) }))
+    .sort((a, b) => b.p - a.p);
+
+  const kept = new Set<SkeletonNode>();
+  let used = 0;
+  for (const { f } of ranked) {
+    if (kept.has(f.node)) continue;
+
+    // A node only makes sense under its ancestors — charge for any not yet kept
+    const chain: FlatNode[] = [];
+    for (let cur: FlatNode | null = f; cur && !kept.has(cur.node); cur = cur.parent) chain.push(cur);
+    const cost = chain.reduce((sum, c) => sum + c.tokens, 0);
+    if (used + cost > budgetTokens) continue;
+
+    for (const c of chain) kept.add(c.node);
+    used += cost;
+  }
+
+  return kept;
+}
+
+function sizePriority(tag: "large" | "small" | null): number {
+  if (tag === "large") return LARGE_BONUS;
+  if (tag === "small") return -SMALL_PENALTY;
+  return 0;
+}
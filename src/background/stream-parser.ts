@@ -0,0 +1,120 @@
+// src/background/stream-parser.ts
+// Incremental JSON parser for streamed transform responses. Emits each
+// element of the top-level "transforms" array as soon as its closing brace
+// arrives, plus growing prefixes of the top-level text fields.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface StreamUpdate {
+  /** Transform objects completed by this chunk (unvalidated) */
+  transforms: Record<string, unknown>[];
+  /** Latest (possibly still partial) text fields, only present when they changed */
+  inferredIntent?: string;
+  digest?: string;
+  summary?: string;
+}
+
+const TEXT_FIELDS = ["inferredIntent", "digest", "summary"] as const;
+type TextField = typeof TEXT_FIELDS[number];
+
+const TRANSFORMS_START = /"transforms"\s*:\s*\[/;
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+export class TransformStreamParser {
+  private buffer = "";
+  /** Index just past the "[" of the transforms array, -1 until it's been seen */
+  private arrayStart = -1;
+  private arrayDone = false;
+  private scanPos = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private objectStart = -1;
+  private lastText: Partial<Record<TextField, string>> = {};
+
+  push(chunk: string): StreamUpdate {
+    this.buffer += chunk;
+    const update: StreamUpdate = { transforms: [] };
+
+    if (this.arrayStart === -1) {
+      const match = TRANSFORMS_START.exec(this.buffer);
+      if (match) {
+        this.arrayStart = match.index + match[0].length;
+        this.scanPos = this.arrayStart;
+      }
+    }
+
+    if (this.arrayStart !== -1 && !this.arrayDone) {
+      this.scanTransforms(update);
+    }
+
+    for (const field of TEXT_FIELDS) {
+      const value = this.readTextField(field);
+      if (value !== undefined && value !== this.lastText[field]) {
+        this.lastText[field] = value;
+        update[field] = value;
+      }
+    }
+
+    return update;
+  }
+
+  /** Everything received so far — handed to the regular parser once the stream ends */
+  get text(): string {
+    return this.buffer;
+  }
+
+  /** Walk new characters inside the transforms array, tracking strings and nesting */
+  private scanTransforms(update: StreamUpdate): void {
+    for (; this.scanPos < this.buffer.length; this.scanPos++) {
+      const ch = this.buffer[this.scanPos];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === "\\") this.escaped = true;
+        else if (ch === '"') this.inString = false;
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === "{" || ch === "[") {
+        if (this.depth === 0 && ch === "{") this.objectStart = this.scanPos;
+        this.depth++;
+      } else if (ch === "}" || ch === "]") {
+        if (this.depth === 0) {
+          // Closing bracket of the transforms array itself
+          this.arrayDone = true;
+          this.scanPos++;
+          return;
+        }
+        this.depth--;
+        if (this.depth === 0 && ch === "}" && this.objectStart !== -1) {
+          try {
+            const parsed = JSON.parse(this.buffer.slice(this.objectStart, this.scanPos + 1));
+            if (typeof parsed === "object" && parsed !== null) update.transforms.push(parsed);
+          } catch { /* malformed element — the final parse will drop it too */ }
+          this.objectStart = -1;
+        }
+      }
+    }
+  }
+
+  /** Current value of a top-level string field, decoded; undefined until its opening quote arrives */
+  private readTextField(field: TextField): string | undefined {
+    const match = new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`).exec(this.buffer);
+    if (!match) return undefined;
+    // A \uXXXX escape may be cut off mid-chunk — drop it until the rest arrives
+    const body = match[1].replace(/\\u[0-9a-fA-F]{0,3}$/, "");
+    try {
+      return JSON.parse(`"${body}"`) as string;
+    } catch {
+      return undefined;
+    }
+  }
+}
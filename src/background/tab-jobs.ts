@@ -0,0 +1,135 @@
+// src/background/tab-jobs.ts
+// Per-tab tracking of in-flight transform work. Each tab has at most one job;
+// its AbortSignal is threaded into every fetch the job makes. Jobs are aborted
+// when the tab navigates to a different URL, is closed, or starts a newer job,
+// and results are only delivered to the document that asked for them.
+// Delta passes (content added after the first pass) share a separate per-tab
+// controller, so they never cancel the page's own pass but still stop on
+// navigation and close.
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TabJob {
+  readonly tabId: number;
+  /** URL the job was started for, without its fragment */
+  readonly url: string;
+  /** Document that sent the skeleton — results are addressed to it alone */
+  readonly documentId?: string;
+  readonly signal: AbortSignal;
+}
+
+interface JobEntry extends TabJob {
+  controller: AbortController;
+}
+
+/** Thrown (or recognized) when work stops because its tab moved on */
+export class TabJobCancelledError extends Error {
+  constructor(reason: string) {
+    super(`Cancelled: ${reason}`);
+    this.name = "TabJobCancelledError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module State
+// ---------------------------------------------------------------------------
+
+const jobs = new Map<number, JobEntry>();
+const deltaJobs = new Map<number, { url: string; controller: AbortController }>();
+
+function stripHash(url: string): string {
+  const hash = url.indexOf("#");
+  return hash === -1 ? url : url.slice(0, hash);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Register new work for a tab, aborting whatever the tab was doing before */
+export function startTabJob(tabId: number, url: string, documentId?: string): TabJob {
+  cancelTabJob(tabId, "superseded by a newer request");
+
+  const controller = new AbortController();
+  const job: JobEntry = { tabId, url: stripHash(url), documentId, signal: controller.signal, controller };
+  jobs.set(tabId, job);
+  return job;
+}
+
+/** Release a job that ran to completion (no-op if it was already replaced) */
+export function finishTabJob(job: TabJob): void {
+  if (jobs.get(job.tabId) === job) jobs.delete(job.tabId);
+}
+
+export function cancelTabJob(tabId: number, reason: string): void {
+  const job = jobs.get(tabId);
+  if (!job) return;
+  jobs.delete(tabId);
+  job.controller.abort(new TabJobCancelledError(reason));
+  console.log(`[Predictive Browser] Cancelled work for tab ${tabId}: ${reason}`);
+}
+
+/** Signal for a tab's delta passes — shared by every pass on the same page, aborted when the tab leaves it */
+export function deltaJobSignal(tabId: number, url: string): AbortSignal {
+  const pageUrl = stripHash(url);
+  const current = deltaJobs.get(tabId);
+  if (current?.url === pageUrl) return current.controller.signal;
+
+  cancelDeltaJobs(tabId, "tab navigated");
+  const controller = new AbortController();
+  deltaJobs.set(tabId, { url: pageUrl, controller });
+  return controller.signal;
+}
+
+function cancelDeltaJobs(tabId: number, reason: string): void {
+  const delta = deltaJobs.get(tabId);
+  if (!delta) return;
+  deltaJobs.delete(tabId);
+  delta.controller.abort(new TabJobCancelledError(reason));
+}
+
+/** Still the tab's live job — i.e. safe to deliver its results */
+export function isJobCurrent(job: TabJob): boolean {
+  return !job.signal.aborted && jobs.get(job.tabId) === job;
+}
+
+/** True for errors caused by a job's signal aborting, however the fetch surfaced them */
+export function isCancellation(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true;
+  return error instanceof TabJobCancelledError ||
+    (error instanceof DOMException && error.name === "AbortError");
+}
+
+/**
+ * Send a message to the job's tab — addressed to the originating document, so a
+ * result can never land on a page the tab navigated to since.
+ */
+export async function sendToJobTab(job: TabJob, message: unknown): Promise<void> {
+  if (!isJobCurrent(job)) return;
+  await chrome.tabs.sendMessage(job.tabId, message, job.documentId ? { documentId: job.documentId } : {});
+}
+
+// ---------------------------------------------------------------------------
+// Tab Lifecycle
+// ---------------------------------------------------------------------------
+
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (!changeInfo.url) return;
+  const url = stripHash(changeInfo.url);
+  const job = jobs.get(tabId);
+  // Fragment-only changes (in-page anchors) keep the same document and job
+  if (job && url !== job.url) {
+    cancelTabJob(tabId, "tab navigated");
+  }
+  const delta = deltaJobs.get(tabId);
+  if (delta && url !== delta.url) {
+    cancelDeltaJobs(tabId, "tab navigated");
+  }
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  cancelTabJob(tabId, "tab closed");
+  cancelDeltaJobs(tabId, "tab closed");
+});
@@ -0,0 +1,237 @@
+// src/background/transform-cache.ts
+// Persistent cache of TransformResponses so reloading the same page with the
+// same profile applies instantly instead of paying for another LLM call.
+// Key = normalized URL + hash of skeleton node texts + digest of profile inputs.
+
+import type {
+  PageSkeleton,
+  SkeletonNode,
+  EnhancedUserProfile,
+  ExtensionSettings,
+  TransformResponse,
+  LinkPreview,
+  TransformInstruction,
+} from '../types/interfaces.js';
+import { modelForRole } from './llm-providers.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'transformCache';
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const MAX_ENTRIES = 150;
+const WRITE_DEBOUNCE_MS = 2000;
+const TOP_TOPICS_IN_KEY = 5;
+
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface CacheEntry {
+  key: string;
+  url: string;
+  /** Digest of focus + settings — used to invalidate when either changes */
+  settingsDigest: string;
+  response: TransformResponse;
+  linkPreviews?: { previews: LinkPreview[]; transforms: TransformInstruction[] };
+  createdAt: number;
+  lastHitAt: number;
+}
+
+export interface CacheKey {
+  key: string;
+  url: string;
+  settingsDigest: string;
+}
+
+// ---------------------------------------------------------------------------
+// Module State
+// ---------------------------------------------------------------------------
+
+let entries: CacheEntry[] | null = null;
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function loadEntries(): Promise<CacheEntry[]> {
+  if (entries) return entries;
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    entries = (result[STORAGE_KEY] as CacheEntry[] | undefined) ?? [];
+  } catch {
+    entries = [];
+  }
+  return entries;
+}
+
+// ---------------------------------------------------------------------------
+// Key Construction
+// ---------------------------------------------------------------------------
+
+/** 32-bit FNV-1a — fast and good enough to fingerprint page text */
+function hashString(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Lowercase host, drop fragment + tracking params, sort the rest, trim trailing slash */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const params = [...parsed.searchParams.entries()]
+      .filter(([name]) => !TRACKING_PARAMS.test(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+    return parsed.toString().replace(/\/(?=$|\?)/, '');
+  } catch {
+    return url;
+  }
+}
+
+function hashSkeleton(skeleton: PageSkeleton): string {
+  const parts: string[] = [];
+  const walk = (nodes: SkeletonNode[]): void => {
+    for (const node of nodes) {
+      parts.push(`${node.tag}:${node.textPreview}`);
+      walk(node.children);
+    }
+  };
+  walk(skeleton.nodes);
+  return hashString(parts.join('\n'));
+}
+
+/** Everything user-controlled that changes what a transform pass would return */
+function digestSettings(focus: string, settings: ExtensionSettings): string {
+  return hashString(JSON.stringify({
+    focus: focus.trim().toLowerCase(),
+    intensity: settings.intensity,
+    actions: settings.enabledActions,
+    removeGrayed: settings.removeGrayedSections,
+    engine: settings.engine,
+    provider: settings.provider,
+    model: modelForRole(settings),
+    auxModel: modelForRole(settings, 'aux'),
+    temperature: settings.temperature,
+    maxOutputTokens: settings.maxOutputTokens,
+    skeletonBudget: settings.skeletonTokenBudget,
+    templates: settings.promptTemplates,
+    sites: settings.siteProfiles,
+  }));
+}
+
+export function buildCacheKey(
+  skeleton: PageSkeleton,
+  profile: EnhancedUserProfile,
+  settings: ExtensionSettings
+): CacheKey {
+  const url = normalizeUrl(skeleton.url);
+  const settingsDigest = digestSettings(profile.currentFocus, settings);
+  // Topic names only — scores drift on every visit and would defeat the cache
+  const topics = profile.topicModel.slice(0, TOP_TOPICS_IN_KEY).map(t => t.topic).join('|');
+  return {
+    key: `${url}#${hashSkeleton(skeleton)}#${settingsDigest}#${hashString(topics)}`,
+    url,
+    settingsDigest,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export async function getCachedTransforms(cacheKey: CacheKey): Promise<TransformResponse | null> {
+  const list = await loadEntries();
+  const entry = list.find(e => e.key === cacheKey.key);
+  if (!entry) return null;
+
+  if (Date.now() - entry.createdAt > CACHE_TTL_MS) {
+    entries = list.filter(e => e !== entry);
+    scheduleWrite();
+    return null;
+  }
+
+  entry.lastHitAt = Date.now();
+  scheduleWrite();
+  return { ...entry.response, source: 'cache' };
+}
+
+export async function getCachedLinkPreviews(
+  cacheKey: CacheKey
+): Promise<{ previews: LinkPreview[]; transforms: TransformInstruction[] } | null> {
+  const list = await loadEntries();
+  return list.find(e => e.key === cacheKey.key)?.linkPreviews ?? null;
+}
+
+export async function cacheTransforms(cacheKey: CacheKey, response: TransformResponse): Promise<void> {
+  // Don't pin failures or empty passes — the next load should try again
+  if (response.transforms.length === 0) return;
+
+  const list = (await loadEntries()).filter(e => e.key !== cacheKey.key);
+  const now = Date.now();
+  list.push({
+    key: cacheKey.key,
+    url: cacheKey.url,
+    settingsDigest: cacheKey.settingsDigest,
+    response,
+    createdAt: now,
+    lastHitAt: now,
+  });
+  entries = evict(list);
+  scheduleWrite();
+}
+
+export async function cacheLinkPreviews(
+  cacheKey: CacheKey,
+  linkPreviews: { previews: LinkPreview[]; transforms: TransformInstruction[] }
+): Promise<void> {
+  const entry = (await loadEntries()).find(e => e.key === cacheKey.key);
+  if (!entry) return;
+  entry.linkPreviews = linkPreviews;
+  scheduleWrite();
+}
+
+/**
+ * Drop every entry built under a different focus/settings combination.
+ * Called when the user saves a new focus or new settings.
+ */
+export async function invalidateTransformCache(focus: string, settings: ExtensionSettings): Promise<void> {
+  const current = digestSettings(focus, settings);
+  const list = await loadEntries();
+  const kept = list.filter(e => e.settingsDigest === current);
+  if (kept.length !== list.length) {
+    console.log(`[Predictive Browser] Invalidated ${list.length - kept.length} cached transform entries`);
+    entries = kept;
+    scheduleWrite();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Eviction + Storage
+// ---------------------------------------------------------------------------
+
+function evict(list: CacheEntry[]): CacheEntry[] {
+  const now = Date.now();
+  const fresh = list.filter(e => now - e.createdAt <= CACHE_TTL_MS);
+  if (fresh.length <= MAX_ENTRIES) return fresh;
+  // Least recently hit goes first
+  return fresh.sort((a, b) => b.lastHitAt - a.lastHitAt).slice(0, MAX_ENTRIES);
+}
+
+function scheduleWrite(): void {
+  if (writeTimer) return;
+  writeTimer = setTimeout(async () => {
+    writeTimer = null;
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: entries ?? [] });
+    } catch (e) {
+      console.error('[Predictive Browser] Failed to write transform cache:', e);
+    }
+  }, WRITE_DEBOUNCE_MS);
+}
@@ -0,0 +1,196 @@
+// src/background/usage-tracker.ts
+// Accounting for every LLM call: purpose, model, prompt/output tokens (as
+// reported by the provider, estimated when it reports nothing), latency and
+// outcome. Calls are rolled up per day, per domain and per model with an
+// estimated cost, persisted as "llmUsage" for the popup's usage view, and the
+// day's cost backs the optional daily cost cap.
+
+import type { ExtensionSettings, LLMProviderType, PromptTemplateName } from '../types/interfaces.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'llmUsage';
+const MAX_RECENT_CALLS = 200;
+const MAX_DAYS = 30;
+/** Further domains in a day are pooled so one crawl-happy day can't bloat storage */
+const MAX_DOMAINS_PER_DAY = 100;
+const OTHER_DOMAINS = '(other)';
+const WRITE_DEBOUNCE_MS = 2000;
+
+/**
+ * List prices in USD per million tokens, matched by the longest model-name
+ * prefix. Models not listed (local servers, new releases) are counted as free.
+ */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10 },
+  'gpt-4.1-nano': { input: 0.10, output: 0.40 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.80, output: 4 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Which pass made the call — one per prompt template */
+export type LLMCallPurpose = PromptTemplateName;
+
+/** "refused" = stopped by a budget / circuit breaker before reaching the network */
+export type LLMCallOutcome = "ok" | "error" | "refused" | "cancelled";
+
+export interface LLMCallRecord {
+  at: number;
+  purpose: LLMCallPurpose;
+  provider: LLMProviderType;
+  model: string;
+  /** Domain of the page the call was made for */
+  domain: string;
+  promptTokens: number;
+  outputTokens: number;
+  /** Token counts are our estimate — the provider didn't report usage */
+  estimated: boolean;
+  latencyMs: number;
+  outcome: LLMCallOutcome;
+  costUsd: number;
+}
+
+interface UsageTotals {
+  calls: number;
+  /** Calls that didn't end in "ok" */
+  failed: number;
+  promptTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface DayUsage extends UsageTotals {
+  byDomain: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byPurpose: Partial<Record<LLMCallPurpose, UsageTotals>>;
+}
+
+interface UsageLog {
+  /** Keyed by local date, YYYY-MM-DD */
+  days: Record<string, DayUsage>;
+  recent: LLMCallRecord[];
+}
+
+// ---------------------------------------------------------------------------
+// Module State
+// ---------------------------------------------------------------------------
+
+let log: UsageLog | null = null;
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+function dayKey(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+async function loadLog(): Promise<UsageLog> {
+  if (log) return log;
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    log = (result[STORAGE_KEY] as UsageLog | undefined) ?? null;
+  } catch { /* start fresh */ }
+  log ??= { days: {}, recent: [] };
+  return log;
+}
+
+function scheduleWrite(): void {
+  if (writeTimer) return;
+  writeTimer = setTimeout(async () => {
+    writeTimer = null;
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: log });
+    } catch (e) {
+      console.error('[Predictive Browser] Failed to write LLM usage:', e);
+    }
+  }, WRITE_DEBOUNCE_MS);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Estimated USD cost of a call, or 0 for models without a known price */
+export function estimateCost(model: string, promptTokens: number, outputTokens: number): number {
+  const name = model.toLowerCase().replace(/^models\//, '');
+  const key = Object.keys(MODEL_PRICING)
+    .filter(prefix => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+  const price = MODEL_PRICING[key];
+  return (promptTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export async function recordLLMCall(call: Omit<LLMCallRecord, 'costUsd'>): Promise<void> {
+  const current = await loadLog();
+  const record: LLMCallRecord = { ...call, costUsd: estimateCost(call.model, call.promptTokens, call.outputTokens) };
+
+  const day = dayKey(record.at);
+  const usage = current.days[day] ??= { ...emptyTotals(), byDomain: {}, byModel: {}, byPurpose: {} };
+  const domainKey = record.domain in usage.byDomain || Object.keys(usage.byDomain).length < MAX_DOMAINS_PER_DAY
+    ? record.domain || OTHER_DOMAINS
+    : OTHER_DOMAINS;
+
+  addTo(usage, record);
+  addTo(usage.byDomain[domainKey] ??= emptyTotals(), record);
+  addTo(usage.byModel[record.model] ??= emptyTotals(), record);
+  addTo(usage.byPurpose[record.purpose] ??= emptyTotals(), record);
+
+  current.recent.push(record);
+  if (current.recent.length > MAX_RECENT_CALLS) {
+    current.recent = current.recent.slice(-MAX_RECENT_CALLS);
+  }
+  const days = Object.keys(current.days).sort();
+  for (const old of days.slice(0, Math.max(0, days.length - MAX_DAYS))) {
+    delete current.days[old];
+  }
+
+  scheduleWrite();
+}
+
+/** Estimated spend so far today, in USD */
+export async function getTodayCost(): Promise<number> {
+  const current = await loadLog();
+  return current.days[dayKey(Date.now())]?.costUsd ?? 0;
+}
+
+/** True once today's estimated spend has reached the configured cap (0 = no cap) */
+export async function isDailyCostCapReached(settings: ExtensionSettings): Promise<boolean> {
+  return settings.maxCostPerDay > 0 && await getTodayCost() >= settings.maxCostPerDay;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, failed: 0, promptTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addTo(totals: UsageTotals, record: LLMCallRecord): void {
+  totals.calls++;
+  if (record.outcome !== "ok") totals.failed++;
+  totals.promptTokens += record.promptTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.costUsd += record.costUsd;
+}
@@ -0,0 +1,109 @@
+// src/content/delta-observer.ts
+// Watches for content added after the page's transform pass — infinite scroll,
+// "load more", lazily rendered comment threads — and hands the new subtrees to
+// the orchestrator in debounced batches for an incremental (delta) pass.
+// Our own DOM changes (panel, badges, reorders) are ignored.
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Quiet period after the last mutation before a batch goes out */
+const DELTA_DEBOUNCE_MS = 1500;
+/** Minimum gap between batches — a fast feed shouldn't mean a model call per second */
+const MIN_DELTA_INTERVAL_MS = 8000;
+/** Added subtrees with less text than this (timestamps, counters, spinners) are ignored */
+const MIN_ROOT_TEXT_LENGTH = 40;
+const MAX_PENDING_ROOTS = 200;
+
+const OWN_UI_SELECTOR = '#pb-digest, #pb-running-banner, .pb-annotation-badge, .pb-link-preview-badge';
+
+// ---------------------------------------------------------------------------
+// Module State
+// ---------------------------------------------------------------------------
+
+let observer: MutationObserver | null = null;
+let pending = new Set<Element>();
+let debounceTimer: number | undefined;
+let lastBatchAt = 0;
+let busy = false;
+let handler: ((roots: Element[]) => Promise<void>) | null = null;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Start watching the page. `onDelta` gets the outermost new subtrees; batches
+ * never overlap — mutations during a pass are queued for the next one.
+ */
+export function startDeltaObserver(onDelta: (roots: Element[]) => Promise<void>): void {
+  stopDeltaObserver();
+  handler = onDelta;
+  lastBatchAt = Date.now();
+
+  observer = new MutationObserver((mutations) => {
+    for (const m of mutations) {
+      for (const added of Array.from(m.addedNodes)) {
+        if (added instanceof Element && pending.size < MAX_PENDING_ROOTS) pending.add(added);
+      }
+    }
+    if (pending.size > 0) schedule(DELTA_DEBOUNCE_MS);
+  });
+  observer.observe(document.body, { childList: true, subtree: true });
+}
+
+export function stopDeltaObserver(): void {
+  observer?.disconnect();
+  observer = null;
+  handler = null;
+  pending = new Set();
+  clearTimeout(debounceTimer);
+}
+
+// ---------------------------------------------------------------------------
+// Batching
+// ---------------------------------------------------------------------------
+
+function schedule(delay: number): void {
+  clearTimeout(debounceTimer);
+  const wait = Math.max(delay, lastBatchAt + MIN_DELTA_INTERVAL_MS - Date.now());
+  debounceTimer = window.setTimeout(flushBatch, wait);
+}
+
+async function flushBatch(): Promise<void> {
+  if (!handler) return;
+  if (busy) {
+    schedule(DELTA_DEBOUNCE_MS);
+    return;
+  }
+
+  const roots = collectRoots(pending);
+  pending = new Set();
+  if (roots.length === 0) return;
+
+  const onDelta = handler;
+  busy = true;
+  lastBatchAt = Date.now();
+  try {
+    await onDelta(roots);
+  } catch (e) {
+    console.warn('[Predictive Browser] Delta pass failed:', e);
+  } finally {
+    busy = false;
+  }
+}
+
+/** Outermost genuinely new elements: still attached, not ours, not already extracted, with some text */
+function collectRoots(candidates: Set<Element>): Element[] {
+  const fresh = Array.from(candidates).filter(el =>
+    el.isConnected &&
+    !el.closest(OWN_UI_SELECTOR) &&
+    !el.id.startsWith('pb-') &&
+    // Stamped content being moved (our reorders, framework re-parenting) isn't new
+    !el.hasAttribute('data-pb-node') &&
+    !el.querySelector('[data-pb-node]') &&
+    (el.textContent ?? '').trim().length >= MIN_ROOT_TEXT_LENGTH
+  );
+  return fresh.filter(el => !fresh.some(other => other !== el && other.contains(el)));
+}
@@ -2,6 +2,15 @@
 // Core DOM extraction logic — produces a compressed semantic skeleton of the page.
 // Types referenced from src/types/interfaces.ts (Session 2). Defined inline until merge.
 
+interface NodeLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  visibleFraction: number;
+  fontSize: number;
+}
+
 interface SkeletonNode {
   id: string;
   selector: string;
@@ -12,26 +21,63 @@ interface SkeletonNode {
   headingLevel?: number;
   href?: string;
   alt?: string;
+  aboveFold?: boolean;
+  layout?: NodeLayout;
+  classList?: string[];
   children: SkeletonNode[];
 }
 
+interface PageFeatures {
+  passwordInputs: number;
+  paymentInputs: number;
+  formFields: number;
+  textLength: number;
+  schemaTypes: string[];
+  ogType: string;
+  codeBlocks: number;
+}
+
 interface PageSkeleton {
   url: string;
   title: string;
   metaDescription: string;
   nodes: SkeletonNode[];
   extractedAt: number;
+  viewport?: { width: number; height: number };
+  pageFeatures?: PageFeatures;
+  learnedNodeIds?: string[];
 }
 
 const MAX_NODES = 150;
+/** Node budget for one incremental (delta) extraction */
+const MAX_DELTA_NODES = 60;
 const MAX_DEPTH = 6;
 const MAX_CHILDREN = 30;
 const TEXT_PREVIEW_LENGTH = 80;
+const MAX_STABLE_CLASSES = 3;
+
+// Prominence — how much of the node budget a subtree gets, relative to its siblings
+/** Size counts up to this many viewports' worth of area — past that it's a page-wide wrapper */
+const MAX_AREA_VIEWPORTS = 2;
+/** Extra weight for the share of the element on screen at extraction time */
+const VISIBLE_WEIGHT = 1;
+const BASE_FONT_SIZE = 16;
+const MIN_FONT_FACTOR = 0.6;
+const MAX_FONT_FACTOR = 2;
+/** Even a 1px element gets a sliver, so ties don't divide by zero */
+const MIN_PROMINENCE = 0.01;
 
 const SKIP_TAGS = new Set([
   "script", "style", "noscript", "template", "iframe",
 ]);
 
+const TEXT_ENTRY_SELECTOR =
+  'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea';
+const PAYMENT_FIELD_PATTERN = /card.?(number|num|no)|cc.?(num|number|exp|csc)|cvc|cvv|csc|security.?code|expir|iban|routing|account.?number|sort.?code/i;
+/** innerText forces layout — stop counting past this, the guard only cares about "very little" */
+const MAX_TEXT_LENGTH = 50000;
+const MAX_SCHEMA_TYPES = 20;
+
 const AD_PATTERNS = [
   "ad-", "adsbygoogle", "cookie-banner", "consent",
   "ad_", "ads-", "advertisement", "cookie-consent",
@@ -40,6 +86,7 @@ const AD_PATTERNS = [
 
 let nodeCounter = 0;
 let totalNodes = 0;
+let nodeBudget = MAX_NODES;
 
 function classifyElement(el: Element): SkeletonNode["type"] {
   const tag = el.tagName.toLowerCase();
@@ -94,6 +141,64 @@ function isHidden(el: Element): boolean {
   return false;
 }
 
+/** Bounding box (document coordinates), on-screen share and font size, rounded for the wire */
+function measureLayout(el: Element): NodeLayout {
+  const rect = el.getBoundingClientRect();
+  const area = rect.width * rect.height;
+  const visibleWidth = Math.max(0, Math.min(rect.right, window.innerWidth) - Math.max(rect.left, 0));
+  const visibleHeight = Math.max(0, Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0));
+
+  let fontSize = BASE_FONT_SIZE;
+  try {
+    fontSize = parseFloat(getComputedStyle(el).fontSize) || BASE_FONT_SIZE;
+  } catch { /* getComputedStyle can fail on some elements */ }
+
+  return {
+    x: Math.round(rect.left + window.scrollX),
+    y: Math.round(rect.top + window.scrollY),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+    visibleFraction: area > 0 ? Math.round((visibleWidth * visibleHeight / area) * 100) / 100 : 0,
+    fontSize: Math.round(fontSize * 10) / 10,
+  };
+}
+
+/** Starts within the first viewport of the document */
+function isAboveFold(layout: NodeLayout): boolean {
+  return layout.y < window.innerHeight && layout.y + layout.height > 0;
+}
+
+/**
+ * Visual weight relative to siblings: size (square-rooted so one giant block
+ * doesn't take everything), boosted by how much is on screen and scaled by
+ * font size — hero sections outrank footer links
+ */
+function prominenceOf(layout: NodeLayout): number {
+  const viewportArea = Math.max(1, window.innerWidth * window.innerHeight);
+  const area = Math.min(layout.width * layout.height, viewportArea * MAX_AREA_VIEWPORTS);
+  const size = Math.sqrt(area / viewportArea);
+  const font = Math.min(MAX_FONT_FACTOR, Math.max(MIN_FONT_FACTOR, layout.fontSize / BASE_FONT_SIZE));
+  return Math.max(MIN_PROMINENCE, size * (1 + VISIBLE_WEIGHT * layout.visibleFraction) * font);
+}
+
+/**
+ * Class names likely to be the same on every page of a site. Build-tool output
+ * (css-1x2y3z, sc-AbCdE, styles_title__3kQ9x) changes between deploys and pages.
+ */
+function getStableClasses(el: Element): string[] {
+  return Array.from(el.classList)
+    .filter(c =>
+      /^[a-zA-Z_-][\w-]*$/.test(c) &&
+      c.length <= 30 &&
+      !/^(css|sc|jsx|svelte|emotion)-/.test(c) &&
+      !/__(?=[\w-]*\d)[\w-]{5,}$/.test(c) &&
+      !/\d{3,}/.test(c) &&
+      // Mixed upper case and digits reads as a hash ("kQ9xA"), not a name
+      !(/[A-Z]/.test(c) && /\d/.test(c)))
+    .sort()
+    .slice(0, MAX_STABLE_CLASSES);
+}
+
 function isAdOrCookieBanner(el: Element): boolean {
   const className = (el.className || "").toString().toLowerCase();
   const id = (el.id || "").toLowerCase();
@@ -274,76 +379,109 @@ function enforceChildLimit(children: SkeletonNode[]): SkeletonNode[] {
   return kept;
 }
 
-function walkDOM(el: Element | ShadowRoot, depth: number): SkeletonNode[] {
-  if (depth > MAX_DEPTH || totalNodes >= MAX_NODES) return [];
-
-  const results: SkeletonNode[] = [];
-
-  for (const child of Array.from(el.children)) {
-    if (totalNodes >= MAX_NODES) break;
-    if (shouldSkipElement(child)) continue;
-
-    // Recurse into shadow DOM if open
-    const shadowRoot = (child as HTMLElement).shadowRoot;
-    const childSource = shadowRoot || child;
-
-    const nodeType = classifyElement(child);
-    const textPreview = getTextPreview(child);
+function walkDOM(el: Element | ShadowRoot, depth: number, budget: number): SkeletonNode[] {
+  if (depth > MAX_DEPTH || budget <= 0 || totalNodes >= nodeBudget) return [];
+  return buildProminent(Array.from(el.children).filter(child => !shouldSkipElement(child)), depth, budget);
+}
 
-    // Recurse into children first
-    const childNodes = walkDOM(childSource, depth + 1);
+/**
+ * Nodes for sibling elements, sharing `budget` between them by prominence
+ * instead of DOM order: the most prominent claim their share first, and what a
+ * subtree doesn't use passes on to the rest. Returned in document order.
+ */
+function buildProminent(elements: Element[], depth: number, budget: number): SkeletonNode[] {
+  const candidates = elements.map((el, index) => {
+    const layout = measureLayout(el);
+    return { el, index, layout, prominence: prominenceOf(layout) };
+  });
 
-    // Skip elements with no text and no meaningful children
-    if (textPreview.length === 0 && childNodes.length === 0) continue;
+  let remaining = budget;
+  let remainingWeight = candidates.reduce((sum, c) => sum + c.prominence, 0);
+  const built: { index: number; node: SkeletonNode }[] = [];
 
-    // Stamp a stable attribute on the element so the selector survives DOM re-renders
-    const nodeId = `node-${nodeCounter++}`;
-    child.setAttribute("data-pb-node", nodeId);
+  for (const c of [...candidates].sort((a, b) => b.prominence - a.prominence)) {
+    if (remaining <= 0 || totalNodes >= nodeBudget) break;
+    const share = Math.max(1, Math.round(remaining * c.prominence / remainingWeight));
+    remainingWeight -= c.prominence;
 
-    // Also capture the nth-child path now, while the DOM is in its extracted state.
-    // This becomes the fallback if a JS framework wipes the data-pb-node attribute
-    // during hydration / re-render while Gemini is processing.
-    const nthChildPath = generateSelector(child);
+    const before = totalNodes;
+    const node = buildNode(c.el, depth, share, c.layout);
+    remaining -= totalNodes - before;
+    if (node) built.push({ index: c.index, node });
+  }
 
-    // Create the node — use the stable attribute as selector instead of nth-child path
-    const node: SkeletonNode = {
-      id: nodeId,
-      selector: `[data-pb-node="${nodeId}"]`,
-      fallbackSelector: nthChildPath !== `[data-pb-node="${nodeId}"]` ? nthChildPath : undefined,
-      type: nodeType,
-      textPreview,
-      tag: child.tagName.toLowerCase(),
-      children: enforceChildLimit(deduplicateSiblings(childNodes)),
-    };
+  return built.sort((a, b) => a.index - b.index).map(b => b.node);
+}
 
-    // Add optional fields
-    const tag = child.tagName.toLowerCase();
-    if (/^h[1-6]$/.test(tag)) {
-      node.headingLevel = parseInt(tag[1], 10);
-    }
-    if (tag === "a") {
-      node.href = child.getAttribute("href") || undefined;
-    }
-    if (tag === "img" || child.getAttribute("role") === "img") {
-      node.alt = child.getAttribute("alt") || "";
-    }
+/** Skeleton node for one element (and its subtree, within `budget` nodes), stamped with the next node id; null if it has no content */
+function buildNode(child: Element, depth: number, budget: number, layout: NodeLayout): SkeletonNode | null {
+  // Recurse into shadow DOM if open
+  const shadowRoot = (child as HTMLElement).shadowRoot;
+  const childSource = shadowRoot || child;
+
+  const nodeType = classifyElement(child);
+  const textPreview = getTextPreview(child);
+
+  // Recurse into children first — the node itself takes one of the budget
+  const childNodes = walkDOM(childSource, depth + 1, budget - 1);
+
+  // Skip elements with no text and no meaningful children
+  if (textPreview.length === 0 && childNodes.length === 0) return null;
+
+  // Stamp a stable attribute on the element so the selector survives DOM re-renders
+  const nodeId = `node-${nodeCounter++}`;
+  child.setAttribute("data-pb-node", nodeId);
+
+  // Also capture the nth-child path now, while the DOM is in its extracted state.
+  // This becomes the fallback if a JS framework wipes the data-pb-node attribute
+  // during hydration / re-render while Gemini is processing.
+  const nthChildPath = generateSelector(child);
+
+  // Create the node — use the stable attribute as selector instead of nth-child path
+  const node: SkeletonNode = {
+    id: nodeId,
+    selector: `[data-pb-node="${nodeId}"]`,
+    fallbackSelector: nthChildPath !== `[data-pb-node="${nodeId}"]` ? nthChildPath : undefined,
+    type: nodeType,
+    textPreview,
+    tag: child.tagName.toLowerCase(),
+    children: enforceChildLimit(deduplicateSiblings(childNodes)),
+  };
 
-    totalNodes++;
-    results.push(node);
+  // Add optional fields
+  const tag = child.tagName.toLowerCase();
+  if (/^h[1-6]$/.test(tag)) {
+    node.headingLevel = parseInt(tag[1], 10);
+  }
+  if (tag === "a") {
+    node.href = child.getAttribute("href") || undefined;
+  }
+  if (tag === "img" || child.getAttribute("role") === "img") {
+    node.alt = child.getAttribute("alt") || "";
+  }
+  if (isAboveFold(layout)) {
+    node.aboveFold = true;
+  }
+  node.layout = layout;
+  const classes = getStableClasses(child);
+  if (classes.length > 0) {
+    node.classList = classes;
   }
 
-  return results;
+  totalNodes++;
+  return node;
 }
 
 export function extractSkeleton(): PageSkeleton {
   // Reset counters and clear any stale stamps from previous runs
   nodeCounter = 0;
   totalNodes = 0;
+  nodeBudget = MAX_NODES;
   document.querySelectorAll("[data-pb-node]").forEach(el => el.removeAttribute("data-pb-node"));
 
   const metaDesc = document.querySelector('meta[name="description"]');
 
-  const nodes = walkDOM(document.body, 0);
+  const nodes = walkDOM(document.body, 0, MAX_NODES);
 
   return {
     url: window.location.href,
@@ -351,9 +489,80 @@ export function extractSkeleton(): PageSkeleton {
     metaDescription: metaDesc?.getAttribute("content") || "",
     nodes: deduplicateSiblings(nodes),
     extractedAt: Date.now(),
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    pageFeatures: extractPageFeatures(),
   };
 }
 
+/**
+ * Skeleton nodes for subtrees added after the full extraction (infinite scroll,
+ * lazily loaded comments). Ids continue from the running counter, so they never
+ * collide with nodes the page's first pass already sent.
+ */
+export function extractDelta(roots: Element[]): SkeletonNode[] {
+  totalNodes = 0;
+  nodeBudget = MAX_DELTA_NODES;
+
+  const live = roots.filter(root => root.isConnected && !shouldSkipElement(root));
+  return deduplicateSiblings(buildProminent(live, 0, MAX_DELTA_NODES));
+}
+
+/** Page-wide signals for the page guard and page-type classifier — inputs never make it into the skeleton itself */
+function extractPageFeatures(): PageFeatures {
+  const fields = Array.from(document.querySelectorAll<HTMLElement>(TEXT_ENTRY_SELECTOR))
+    .filter(el => el.getClientRects().length > 0);
+
+  const paymentInputs = fields.filter(el => {
+    const autocomplete = el.getAttribute("autocomplete") ?? "";
+    if (autocomplete.startsWith("cc-")) return true;
+    const label = [el.getAttribute("name"), el.id, el.getAttribute("placeholder"), el.getAttribute("aria-label")].join(" ");
+    return PAYMENT_FIELD_PATTERN.test(label);
+  }).length;
+
+  return {
+    passwordInputs: fields.filter(el => el instanceof HTMLInputElement && el.type === "password").length,
+    paymentInputs,
+    formFields: fields.length,
+    textLength: Math.min(MAX_TEXT_LENGTH, (document.body?.innerText ?? "").trim().length),
+    schemaTypes: extractSchemaTypes(),
+    ogType: (document.querySelector('meta[property="og:type"]')?.getAttribute("content") ?? "").trim().toLowerCase(),
+    codeBlocks: document.querySelectorAll("pre").length,
+  };
+}
+
+/** schema.org types from JSON-LD blocks (including @graph) and microdata itemtype URLs */
+function extractSchemaTypes(): string[] {
+  const types = new Set<string>();
+  const addType = (value: unknown): void => {
+    const values = Array.isArray(value) ? value : [value];
+    for (const v of values) {
+      if (typeof v === "string" && v.trim()) types.add(v.trim().replace(/^.*[/#:]/, ""));
+    }
+  };
+  const walk = (value: unknown, depth: number): void => {
+    if (depth > 4 || types.size >= MAX_SCHEMA_TYPES || !value || typeof value !== "object") return;
+    if (Array.isArray(value)) {
+      value.forEach(v => walk(v, depth + 1));
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    addType(record["@type"]);
+    if (record["@graph"]) walk(record["@graph"], depth + 1);
+    if (record.mainEntity) walk(record.mainEntity, depth + 1);
+  };
+
+  document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      walk(JSON.parse(script.textContent ?? ""), 0);
+    } catch { /* malformed JSON-LD is common — skip the block */ }
+  });
+  document.querySelectorAll("[itemtype]").forEach(el => {
+    for (const url of (el.getAttribute("itemtype") ?? "").split(/\s+/)) addType(url);
+  });
+
+  return [...types].slice(0, MAX_SCHEMA_TYPES);
+}
+
 // Helper utilities for the self-test
 
 function countNodes(nodes: SkeletonNode[]): number {
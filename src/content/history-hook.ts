@@ -0,0 +1,25 @@
+// src/content/history-hook.ts
+// Runs in the page's own JS world (manifest "world": "MAIN") at document_start.
+// The orchestrator lives in the isolated content-script world and can't see the
+// page calling history.pushState / replaceState, so both are wrapped here and
+// each call is announced with a DOM event, which crosses between the worlds.
+
+import { ROUTE_CHANGE_EVENT } from '../types/interfaces.js';
+
+const HOOKED_FLAG = '__pbHistoryHooked';
+
+function hookHistory(): void {
+  const w = window as unknown as Record<string, unknown>;
+  if (w[HOOKED_FLAG]) return;
+  w[HOOKED_FLAG] = true;
+
+  for (const method of ['pushState', 'replaceState'] as const) {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>): void {
+      original.apply(this, args);
+      window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+    };
+  }
+}
+
+hookHistory();
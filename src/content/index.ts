@@ -1,10 +1,38 @@
 // src/content/index.ts
-// Orchestrator — wires extractor to messaging to transformer.
+// Orchestrator — wires extractor to messaging to transformer. Runs once at
+// document_idle and again after every client-side (SPA) route change.
 
-import { extractSkeleton } from './extractor.js';
-import { applyTransforms, updatePanelWithLinkPreviews } from './transformer.js';
-import { startSignalCollection } from './signal-collector.js';
-import type { TransformResponse, LinkPreviewMessage } from '../types/interfaces.js';
+import { extractSkeleton, extractDelta } from './extractor.js';
+import { applyTransforms, updatePanelWithLinkPreviews, updateStreamingPanel, setSiteProfile, cleanupTransforms, toggleOriginalView } from './transformer.js';
+import { findSiteProfile } from '../shared/site-profiles.js';
+import { decidePagePolicy } from '../shared/page-guard.js';
+import { evaluateRulePacks } from './rule-engine.js';
+import { startSignalCollection, flushSignals, trackAdditionalTransforms } from './signal-collector.js';
+import { startDeltaObserver, stopDeltaObserver } from './delta-observer.js';
+import { isSerp, extractSerpResults } from './serp-extractor.js';
+import type {
+  TransformResponse,
+  LinkPreviewMessage,
+  PageSkeleton,
+  SkeletonDeltaMessage,
+  PartialTransformUpdate,
+  ExtensionMessage,
+  TransformMessage,
+  ErrorMessage,
+  LLMStatus,
+  PageGuardMessage,
+  SerpResultsMessage,
+  SerpResult,
+  SiteProfile,
+} from '../types/interfaces.js';
+import { TRANSFORM_PORT_NAME, ROUTE_CHANGE_EVENT } from '../types/interfaces.js';
+
+const ROUTE_CHANGE_DEBOUNCE_MS = 400;
+
+/** Bumped on every (re)run — a run whose number is no longer current stops at its next checkpoint */
+let pipelineRun = 0;
+/** The current run's open transform port, so a route change can drop it */
+let inFlight: { cancel: () => void } | null = null;
 
 function injectRunningBanner(): void {
   if (document.getElementById('pb-running-banner')) return;
@@ -40,42 +68,130 @@ function injectRunningBanner(): void {
     (parseFloat(getComputedStyle(document.documentElement).paddingTop) || 0) + 28 + 'px';
 }
 
+function removeRunningBanner(): void {
+  const banner = document.getElementById('pb-running-banner');
+  if (!banner) return;
+  banner.remove();
+  document.documentElement.style.paddingTop =
+    Math.max(0, (parseFloat(getComputedStyle(document.documentElement).paddingTop) || 0) - 28) + 'px';
+}
+
+/** Surface a degraded LLM state (rate limited, over quota, paused) in the banner */
+function showBannerStatus(status: LLMStatus): void {
+  const banner = document.getElementById('pb-running-banner');
+  if (!banner) return;
+
+  let text = `\u26A0 Predictive Browser \u2014 ${status.message}`;
+  if (status.retryAt && status.retryAt > Date.now()) {
+    const seconds = Math.ceil((status.retryAt - Date.now()) / 1000);
+    text += seconds < 120 ? ` (retry in ${seconds}s)` : ` (retry at ${new Date(status.retryAt).toLocaleTimeString()})`;
+  }
+  banner.textContent = text;
+  banner.style.background = 'linear-gradient(90deg,#2e1a1a 0%,#3e2416 50%,#60300f 100%)';
+  banner.style.color = '#ffe0c0';
+}
+
 async function main() {
-  // 0. Check if extension is enabled
+  const run = ++pipelineRun;
+  const isStale = (): boolean => run !== pipelineRun;
+
+  // 0. Check if extension is enabled, and pick up this site's profile
+  let showBanner = true;
+  let siteProfile: SiteProfile | null = null;
+  let pageGuard = true;
+  let serpMode = true;
   try {
     const stored = await chrome.storage.local.get("extensionSettings");
     if (stored["extensionSettings"]?.enabled === false) {
       console.log("[Predictive Browser] Extension is disabled, skipping.");
       return;
     }
+    siteProfile = findSiteProfile(location.href, stored["extensionSettings"]?.siteProfiles ?? []);
+    setSiteProfile(siteProfile);
+    showBanner = siteProfile?.showBanner ?? true;
+    pageGuard = stored["extensionSettings"]?.pageGuard ?? true;
+    serpMode = stored["extensionSettings"]?.serpMode ?? true;
   } catch { /* proceed if storage read fails */ }
 
   // Inject the "running" banner immediately
-  injectRunningBanner();
+  if (showBanner) injectRunningBanner();
 
   // 1. Wait for page to settle (handle SPAs)
   await waitForDomStable();
+  if (isStale()) return;
 
   // 2. Extract skeleton
   const skeleton = extractSkeleton();
 
+  // 2b. Page guard — sensitive pages are left alone, low-value ones get local rules only
+  const decision = decidePagePolicy(skeleton, siteProfile, pageGuard);
+  if (decision.policy !== "llm") {
+    const msg: PageGuardMessage = { type: "PAGE_GUARD_DECISION", payload: { url: location.href, decision } };
+    chrome.runtime.sendMessage(msg).catch(() => { /* logging is best-effort */ });
+  }
+  if (decision.policy === "skip") {
+    console.log(`[Predictive Browser] Page guard: skipping (${decision.reasons.join("; ")})`);
+    removeRunningBanner();
+    return;
+  }
+
+  // 2c. Local rule packs apply straight away — no model involved, and elements
+  //     they claim are skipped by the model's transforms later
+  const rules = await evaluateRulePacks();
+  if (rules.transforms.length > 0) {
+    await applyTransforms({ transforms: rules.transforms, summary: "", inferredIntent: "" });
+  }
+  skeleton.learnedNodeIds = rules.learnedNodeIds;
+  if (isStale()) return;
+
+  if (decision.policy === "rules_only") {
+    console.log(`[Predictive Browser] Page guard: rules only (${decision.reasons.join("; ")})`);
+    removeRunningBanner();
+    return;
+  }
+
+  // 2d. Search results pages are re-ranked result by result, locally
+  if (serpMode && isSerp()) {
+    const results = extractSerpResults();
+    if (results.length > 0) {
+      await runSerpMode(results, isStale);
+      return;
+    }
+  }
+
   // 3. Validate skeleton has content
   if (skeleton.nodes.length === 0) {
     console.log("[Predictive Browser] Empty page, skipping.");
     return;
   }
 
-  // 4. Send skeleton to background service worker
+  // 4. Send skeleton to background service worker — streamed batches are applied
+  //    in order as they arrive, and the digest panel fills in alongside them
   try {
-    const response = await chrome.runtime.sendMessage({
-      type: "SKELETON_READY",
-      payload: skeleton,
+    const streamed: TransformResponse = { transforms: [], summary: "", inferredIntent: "" };
+    let applyQueue: Promise<void> = Promise.resolve();
+
+    const response = await requestTransforms(skeleton, (update) => {
+      if (isStale()) return;
+      streamed.transforms.push(...update.transforms);
+      if (update.inferredIntent !== undefined) streamed.inferredIntent = update.inferredIntent;
+      if (update.digest !== undefined) streamed.digest = update.digest;
+
+      applyQueue = applyQueue.then(async () => {
+        if (update.transforms.length > 0) {
+          await applyTransforms({ transforms: update.transforms, summary: "", inferredIntent: "" }, skeleton);
+        }
+        updateStreamingPanel(streamed, skeleton);
+      });
     });
+    await applyQueue;
+    if (isStale()) return;
 
     // 5. Handle response
     if (response?.type === "TRANSFORMS_READY") {
       const transformResponse = response.payload as TransformResponse;
       console.log("[Predictive Browser] Transforms received:", transformResponse);
+      if (transformResponse.llmStatus) showBannerStatus(transformResponse.llmStatus);
 
       await applyTransforms(transformResponse, skeleton);
 
@@ -84,26 +200,183 @@ async function main() {
         selector: t.selector,
         action: t.action,
       }));
-      startSignalCollection(appliedTransforms);
+      startSignalCollection(appliedTransforms, transformResponse.templateVersion);
+
+      // 7. Content loaded from here on (infinite scroll, lazy comments) gets its own passes
+      startDeltaObserver(roots => runDeltaPass(roots, skeleton, transformResponse, isStale));
     } else if (response?.type === "TRANSFORM_ERROR") {
       console.error("[Predictive Browser] Transform error:", response.payload.message);
+      if (response.payload.status) showBannerStatus(response.payload.status);
       // Still collect basic page signals even without transforms
       startSignalCollection([]);
     }
   } catch (err) {
+    if (isStale()) return; // dropped by a route change
     console.error("[Predictive Browser] Failed to send skeleton:", err);
     // Collect basic page signals even on error
     startSignalCollection([]);
   }
 }
 
+/**
+ * Incremental pass over subtrees added since the first pass: extract them with
+ * fresh node ids, apply local rules, then ask for transforms on just those nodes.
+ */
+async function runDeltaPass(
+  roots: Element[],
+  skeleton: PageSkeleton,
+  firstPass: TransformResponse,
+  isStale: () => boolean
+): Promise<void> {
+  if (isStale()) return;
+  const nodes = extractDelta(roots);
+  if (nodes.length === 0) return;
+
+  // Learned rules cover these nodes too — the service worker leaves them out of the prompt
+  const rules = await evaluateRulePacks();
+  if (rules.transforms.length > 0) {
+    await applyTransforms({ transforms: rules.transforms, summary: "", inferredIntent: "" });
+  }
+
+  const msg: SkeletonDeltaMessage = {
+    type: "SKELETON_DELTA",
+    payload: {
+      url: location.href,
+      title: document.title,
+      metaDescription: skeleton.metaDescription,
+      pageFeatures: skeleton.pageFeatures,
+      pageType: firstPass.pageType,
+      nodes,
+      inferredIntent: firstPass.inferredIntent,
+      learnedNodeIds: rules.learnedNodeIds,
+    },
+  };
+  const response = await chrome.runtime.sendMessage(msg) as TransformMessage | ErrorMessage | undefined;
+  if (isStale()) return;
+  if (response?.type !== "TRANSFORMS_READY") {
+    console.warn("[Predictive Browser] Delta pass failed:", response?.payload.message);
+    return;
+  }
+
+  console.log(`[Predictive Browser] Delta pass: ${response.payload.transforms.length} transforms for ${nodes.length} new subtrees`);
+  // No intent → the digest panel keeps describing the whole page
+  await applyTransforms({ ...response.payload, inferredIntent: "" }, { ...skeleton, nodes });
+  trackAdditionalTransforms(response.payload.transforms.map(t => ({ selector: t.selector, action: t.action })));
+}
+
+/** Rank the scraped results in the service worker and apply the reorder / dim / annotate transforms */
+async function runSerpMode(results: SerpResult[], isStale: () => boolean): Promise<void> {
+  try {
+    const msg: SerpResultsMessage = { type: "SERP_RESULTS", payload: { url: location.href, results } };
+    const response = await chrome.runtime.sendMessage(msg) as TransformMessage | ErrorMessage | undefined;
+    if (isStale()) return;
+    if (response?.type !== "TRANSFORMS_READY") {
+      console.error("[Predictive Browser] SERP ranking failed:", response?.payload.message);
+      startSignalCollection([]);
+      return;
+    }
+    console.log(`[Predictive Browser] SERP mode: ${response.payload.summary}`);
+    await applyTransforms(response.payload);
+    startSignalCollection(response.payload.transforms.map(t => ({ selector: t.selector, action: t.action })));
+  } catch (err) {
+    console.error("[Predictive Browser] Failed to send SERP results:", err);
+    startSignalCollection([]);
+  }
+}
+
+/**
+ * Send the skeleton over a streaming port. Partial batches go to `onPartial`
+ * as they arrive; resolves with the final TRANSFORMS_READY / TRANSFORM_ERROR.
+ */
+function requestTransforms(
+  skeleton: PageSkeleton,
+  onPartial: (update: PartialTransformUpdate) => void
+): Promise<TransformMessage | ErrorMessage> {
+  return new Promise((resolve, reject) => {
+    const port = chrome.runtime.connect({ name: TRANSFORM_PORT_NAME });
+    let settled = false;
+    const handle = {
+      cancel: (): void => {
+        if (settled) return;
+        settle();
+        port.disconnect();
+        reject(new Error("Route changed"));
+      },
+    };
+    inFlight = handle;
+    const settle = (): void => {
+      settled = true;
+      if (inFlight === handle) inFlight = null;
+    };
+
+    port.onMessage.addListener((message: ExtensionMessage) => {
+      if (message.type === "TRANSFORMS_PARTIAL") {
+        onPartial(message.payload);
+      } else if (message.type === "TRANSFORMS_READY" || message.type === "TRANSFORM_ERROR") {
+        settle();
+        port.disconnect();
+        resolve(message);
+      }
+    });
+
+    port.onDisconnect.addListener(() => {
+      if (settled) return;
+      settle();
+      reject(new Error(chrome.runtime.lastError?.message ?? "Transform port closed"));
+    });
+
+    port.postMessage({ type: "SKELETON_READY", payload: skeleton });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// SPA route changes — pushState / replaceState (page-world hook), back/forward
+// (popstate) and the background's webNavigation backup all funnel into one
+// debounced check; a changed path or query ends the old view and re-runs main()
+// ---------------------------------------------------------------------------
+
+let currentRoute = routeKey(location.href);
+let routeTimer: number | undefined;
+
+/** URL without its fragment — in-page anchors aren't new views */
+function routeKey(url: string): string {
+  const hash = url.indexOf("#");
+  return hash === -1 ? url : url.slice(0, hash);
+}
+
+function scheduleRouteCheck(): void {
+  clearTimeout(routeTimer);
+  routeTimer = window.setTimeout(onRouteChange, ROUTE_CHANGE_DEBOUNCE_MS);
+}
+
+function onRouteChange(): void {
+  const route = routeKey(location.href);
+  if (route === currentRoute) return;
+  currentRoute = route;
+  console.log("[Predictive Browser] Route changed, re-running for:", location.href);
+
+  flushSignals();
+  stopDeltaObserver();
+  inFlight?.cancel();
+  cleanupTransforms();
+  main().catch(console.error);
+}
+
+window.addEventListener(ROUTE_CHANGE_EVENT, scheduleRouteCheck);
+window.addEventListener("popstate", scheduleRouteCheck);
+
 // ---------------------------------------------------------------------------
-// Second pass listener — link previews arrive asynchronously
+// Background messages — link previews arrive asynchronously, route changes
+// are relayed from webNavigation, the original/predicted shortcut from commands
 // ---------------------------------------------------------------------------
 
 if (typeof chrome !== 'undefined' && chrome?.runtime?.onMessage) {
   chrome.runtime.onMessage.addListener((message: { type: string }) => {
-    if (message.type === "LINK_PREVIEWS_READY") {
+    if (message.type === "ROUTE_CHANGED") {
+      scheduleRouteCheck();
+    } else if (message.type === "TOGGLE_ORIGINAL_VIEW") {
+      toggleOriginalView();
+    } else if (message.type === "LINK_PREVIEWS_READY") {
       const msg = message as unknown as LinkPreviewMessage;
       console.log("[Predictive Browser] Link previews received:", msg.payload.previews.length, "previews");
       // Update the "Further links" panel section with real previews
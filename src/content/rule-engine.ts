@@ -0,0 +1,136 @@
+// src/content/rule-engine.ts
+// Evaluates local rule packs against the live page. Matching elements are
+// tagged with data-pb-rule and turned into ordinary TransformInstructions, so
+// rules go through the same applyTransforms path as model output — and, being
+// applied first, win over any model transform aimed at the same element.
+// Rules the service worker learned from repeated model answers run last.
+
+import type { LocalRule, RulePack, TransformInstruction } from '../types/interfaces.js';
+import { hostOf, matchesHostPattern } from '../shared/site-profiles.js';
+import { loadRulePacks, loadLearnedRules, learnedRulesPack, LEARNED_PACK_ID } from '../shared/rule-packs.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** A broad selector shouldn't be able to touch the whole page */
+const MAX_MATCHES_PER_RULE = 25;
+/** Rules are the user's explicit choice — rank them above anything the model scores */
+const RULE_RELEVANCE = 100;
+const SKIP_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+
+let nextRuleRef = 0;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RuleMatches {
+  transforms: TransformInstruction[];
+  /** Skeleton node ids a learned rule actually matched — the only ones the service worker may leave out of the prompt */
+  learnedNodeIds: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Transforms for every enabled rule that applies to this page */
+export async function evaluateRulePacks(url: string = location.href): Promise<RuleMatches> {
+  let packs: RulePack[];
+  try {
+    packs = [...await loadRulePacks(), learnedRulesPack(await loadLearnedRules())];
+  } catch {
+    return { transforms: [], learnedNodeIds: [] };
+  }
+
+  const host = hostOf(url);
+  const transforms: TransformInstruction[] = [];
+  const learnedNodeIds: string[] = [];
+  const claimed = new Set<HTMLElement>();
+
+  for (const pack of packs) {
+    if (!pack.enabled) continue;
+    for (const rule of pack.rules) {
+      if (!matchesHostPattern(host, rule.hostPattern)) continue;
+      // First rule to claim an element wins — packs are evaluated in list order
+      for (const el of findRuleTargets(rule)) {
+        if (claimed.has(el)) continue;
+        claimed.add(el);
+        transforms.push(toInstruction(el, rule, pack));
+        if (pack.id === LEARNED_PACK_ID && el.dataset.pbNode) learnedNodeIds.push(el.dataset.pbNode);
+      }
+    }
+  }
+
+  if (transforms.length > 0) {
+    console.log(`[Predictive Browser] Local rules matched ${transforms.length} elements`);
+  }
+  return { transforms, learnedNodeIds };
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function findRuleTargets(rule: LocalRule): HTMLElement[] {
+  let candidates: HTMLElement[];
+  try {
+    candidates = rule.selector
+      ? Array.from(document.querySelectorAll<HTMLElement>(rule.selector))
+      : findByText(rule.textMatch ?? '');
+  } catch {
+    console.warn(`[Predictive Browser] Skipping rule with invalid selector: ${rule.selector}`);
+    return [];
+  }
+
+  if (rule.selector && rule.textMatch) {
+    const needle = normalizeText(rule.textMatch);
+    candidates = candidates.filter(el => normalizeText(el.textContent ?? '').includes(needle));
+    // A nested match would wrap the whole section around it — keep the innermost
+    candidates = candidates.filter(el => !candidates.some(other => other !== el && el.contains(other)));
+  }
+
+  // Never our own UI
+  return candidates
+    .filter(el => !el.closest('#pb-digest, #pb-running-banner'))
+    .slice(0, MAX_MATCHES_PER_RULE);
+}
+
+/** Innermost elements whose own text contains the needle */
+function findByText(text: string): HTMLElement[] {
+  const needle = normalizeText(text);
+  if (!needle || !document.body) return [];
+
+  const found: HTMLElement[] = [];
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const parent = walker.currentNode.parentElement;
+    if (!parent || SKIP_TAGS.has(parent.tagName)) continue;
+    if (!normalizeText(walker.currentNode.textContent ?? '').includes(needle)) continue;
+    if (!found.includes(parent)) found.push(parent);
+    if (found.length >= MAX_MATCHES_PER_RULE) break;
+  }
+  return found;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Collapsed whitespace, lowercase — the form learned rules store their textMatch in */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function toInstruction(el: HTMLElement, rule: LocalRule, pack: RulePack): TransformInstruction {
+  el.dataset.pbRule ??= `rule-${nextRuleRef++}`;
+  return {
+    action: rule.action,
+    selector: `[data-pb-rule="${el.dataset.pbRule}"]`,
+    reason: `Rule: ${pack.name}`,
+    relevance: RULE_RELEVANCE,
+    annotation: rule.annotation,
+    position: rule.position,
+  };
+}
@@ -0,0 +1,158 @@
+// src/content/serp-extractor.ts
+// Search results page mode — pulls the organic results (title, destination
+// URL, snippet) out of Google, Bing and DuckDuckGo result pages as structured
+// items. Each result's outermost element is stamped with data-pb-serp so the
+// ranker's reorder / dim / annotate transforms can address it.
+
+import type { SerpResult } from '../types/interfaces.js';
+import { SEARCH_DOMAINS } from './signal-collector.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+interface EngineConfig {
+  host: RegExp;
+  /** Container holding the organic results — ads and side panels live outside it */
+  root: string;
+  /** Result title elements; each one marks one result */
+  title: string;
+  snippet: string;
+}
+
+const ENGINES: EngineConfig[] = [
+  {
+    host: /(^|\.)google\.[a-z.]+$/,
+    root: "#rso",
+    title: "a h3",
+    snippet: ".VwiC3b, [data-sncf], [style*='-webkit-line-clamp']",
+  },
+  {
+    host: /(^|\.)bing\.com$/,
+    root: "#b_results",
+    title: "li.b_algo h2",
+    snippet: ".b_caption p, .b_lineclamp2, .b_lineclamp3",
+  },
+  {
+    host: /(^|\.)duckduckgo\.com$/,
+    root: "#react-layout, #links, .results",
+    title: "article[data-testid='result'] h2, .result:not(.result--ad) h2",
+    snippet: "[data-result='snippet'], .result__snippet",
+  },
+];
+
+const MIN_RESULTS = 3;
+const MAX_RESULTS = 20;
+const SNIPPET_LENGTH = 200;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** True on a results page of a supported engine (the host alone isn't enough — e.g. google.com/maps) */
+export function isSerp(): boolean {
+  return !!detectEngine() && new URLSearchParams(location.search).has("q");
+}
+
+/**
+ * Extract and stamp the organic results. Returns an empty list when the page
+ * doesn't look like a results page after all (layout change, image search, ...).
+ */
+export function extractSerpResults(): SerpResult[] {
+  const engine = detectEngine();
+  if (!engine) return [];
+  const root = document.querySelector(engine.root);
+  if (!root) return [];
+
+  document.querySelectorAll("[data-pb-serp]").forEach(el => el.removeAttribute("data-pb-serp"));
+
+  const titles = Array.from(root.querySelectorAll<HTMLElement>(engine.title))
+    .filter(el => el.getClientRects().length > 0);
+  const results: SerpResult[] = [];
+  const seen = new Set<string>();
+
+  for (const title of titles) {
+    if (results.length >= MAX_RESULTS) break;
+    const link = title.closest("a") ?? title.querySelector("a");
+    const url = link ? unwrapRedirect(link.href) : "";
+    if (!url || seen.has(url)) continue;
+    seen.add(url);
+
+    const item = liftToItem(title, titles, root);
+    if (item.hasAttribute("data-pb-serp")) continue; // two titles in one card — keep the first
+
+    const id = `serp-${results.length}`;
+    item.setAttribute("data-pb-serp", id);
+    results.push({
+      id,
+      selector: `[data-pb-serp="${id}"]`,
+      title: (title.textContent ?? "").trim(),
+      url,
+      snippet: snippetOf(item, engine, title),
+      rank: results.length,
+    });
+  }
+
+  return results.length >= MIN_RESULTS ? results : [];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function detectEngine(): EngineConfig | null {
+  const host = location.hostname.toLowerCase();
+  if (!SEARCH_DOMAINS.some(d => host.includes(d))) return null;
+  return ENGINES.find(e => e.host.test(host)) ?? null;
+}
+
+/**
+ * Walk up from the title to the outermost element that contains no other
+ * result — the whole card, so results end up as siblings the ranker can reorder.
+ */
+function liftToItem(title: HTMLElement, titles: HTMLElement[], root: Element): HTMLElement {
+  let item = title;
+  while (item.parentElement && item.parentElement !== root) {
+    const parent = item.parentElement;
+    if (titles.some(t => t !== title && parent.contains(t))) break;
+    item = parent;
+  }
+  return item;
+}
+
+function snippetOf(item: HTMLElement, engine: EngineConfig, title: HTMLElement): string {
+  const el = item.querySelector(engine.snippet);
+  let text = el?.textContent ?? "";
+  if (!text.trim()) {
+    // Layout drift — fall back to the card's text minus its title
+    text = (item.innerText ?? "").replace(title.innerText ?? "", "");
+  }
+  text = text.replace(/\s+/g, " ").trim();
+  return text.length > SNIPPET_LENGTH ? text.slice(0, SNIPPET_LENGTH - 1) + "…" : text;
+}
+
+/** Resolve the engines' click-tracking redirects to the destination URL */
+function unwrapRedirect(href: string): string {
+  try {
+    const url = new URL(href, location.href);
+    // Google: /url?q=<dest> (or url=)
+    if (/(^|\.)google\./.test(url.hostname) && url.pathname === "/url") {
+      return url.searchParams.get("q") ?? url.searchParams.get("url") ?? "";
+    }
+    // DuckDuckGo HTML: /l/?uddg=<dest>
+    if (url.hostname.endsWith("duckduckgo.com") && url.pathname.startsWith("/l/")) {
+      return url.searchParams.get("uddg") ?? "";
+    }
+    // Bing: /ck/a?...&u=a1<base64url(dest)>
+    if (url.hostname.endsWith("bing.com") && url.pathname === "/ck/a") {
+      const encoded = url.searchParams.get("u") ?? "";
+      if (!encoded.startsWith("a1")) return "";
+      return new URL(atob(encoded.slice(2).replace(/-/g, "+").replace(/_/g, "/"))).href;
+    }
+    // Anything else on the engine's own host (image tabs, "more results") isn't a result
+    if (url.hostname === location.hostname) return "";
+    return url.href;
+  } catch {
+    return "";
+  }
+}
@@ -7,6 +7,7 @@ import type {
   EngagementSignal,
   PageVisitSignal,
 } from '../types/interfaces.js';
+import { isOriginalView, isUndone } from './undo-log.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -15,7 +16,7 @@ import type {
 const HOVER_THRESHOLD_MS = 2000;
 const SCROLL_THROTTLE_MS = 2000;
 const SEARCH_PARAMS = ['q', 'query', 'search_query', 'p'];
-const SEARCH_DOMAINS = [
+export const SEARCH_DOMAINS = [
   'google.', 'bing.com', 'duckduckgo.com', 'yahoo.com',
   'baidu.com', 'yandex.', 'ecosia.org', 'brave.com',
 ];
@@ -28,9 +29,17 @@ let startTime = 0;
 let maxScrollDepth = 0;
 let engagements: EngagementSignal[] = [];
 let appliedTransforms: { selector: string; action: TransformAction }[] = [];
-let flushed = false;
+let templateVersion: string | undefined;
+/** Nothing to flush until collection starts */
+let flushed = true;
+// The page view being measured — captured at start, since a SPA route change
+// has already moved location on by the time its old view is flushed
+let pageUrl = location.href;
+let pageTitle = '';
+let referrer = document.referrer;
 let scrollTimer: number | null = null;
 let intersectionObserver: IntersectionObserver | null = null;
+let viewedSelectors = new Set<string>();
 
 // Track hover timers per element to properly clear them
 const hoverTimers = new Map<HTMLElement, number>();
@@ -42,14 +51,14 @@ const hoverTimers = new Map<HTMLElement, number>();
 function extractSearchQuery(): string {
   // Check current URL params (for search engine result pages)
   for (const param of SEARCH_PARAMS) {
-    const value = new URL(location.href).searchParams.get(param);
+    const value = new URL(pageUrl).searchParams.get(param);
     if (value) return value;
   }
 
   // Check referrer for search engine queries
-  if (document.referrer) {
+  if (referrer) {
     try {
-      const refUrl = new URL(document.referrer);
+      const refUrl = new URL(referrer);
       const isSearch = SEARCH_DOMAINS.some(d => refUrl.hostname.includes(d));
       if (isSearch) {
         for (const param of SEARCH_PARAMS) {
@@ -98,7 +107,7 @@ function trackClick(selector: string, action: TransformAction): void {
   // Send click events immediately for real-time feedback
   chrome.runtime.sendMessage({
     type: 'ENGAGEMENT_EVENT',
-    payload: { ...signal, url: location.href },
+    payload: { ...signal, url: pageUrl },
   }).catch(() => { /* extension context may be invalidated */ });
 }
 
@@ -129,14 +138,9 @@ function trackExpand(selector: string): void {
   });
 }
 
-function setupElementTracking(
-  transforms: { selector: string; action: TransformAction }[]
-): void {
-  appliedTransforms = transforms;
-
-  // IntersectionObserver for scroll-into-view
-  const viewedSelectors = new Set<string>();
-  intersectionObserver = new IntersectionObserver(
+/** Scroll-into-view tracking — one observer per page view */
+function createIntersectionObserver(): IntersectionObserver {
+  return new IntersectionObserver(
     (entries) => {
       for (const entry of entries) {
         if (entry.isIntersecting) {
@@ -152,7 +156,11 @@ function setupElementTracking(
     },
     { threshold: 0.5 }
   );
+}
 
+function setupElementTracking(
+  transforms: { selector: string; action: TransformAction }[]
+): void {
   for (const t of transforms) {
     const el = document.querySelector(t.selector) as HTMLElement | null;
     if (!el) continue;
@@ -165,7 +173,7 @@ function setupElementTracking(
     el.addEventListener('click', () => trackClick(t.selector, t.action), { once: true });
 
     // Intersection observer
-    intersectionObserver.observe(el);
+    intersectionObserver?.observe(el);
 
     // Hover tracking (>2s)
     el.addEventListener('mouseenter', () => {
@@ -184,9 +192,12 @@ function setupElementTracking(
       }
     });
 
-    // For collapsed elements, watch for manual expansion (display change)
+    // For collapsed elements, watch for manual expansion (display change). Only
+    // an undo from the panel counts — re-render repairs and flipping the whole
+    // page to its original view say nothing about this one element
     if (t.action === 'collapse') {
       const collapseObserver = new MutationObserver((mutations) => {
+        if (isOriginalView() || !isUndone(t.selector)) return;
         for (const m of mutations) {
           if (
             m.type === 'attributes' &&
@@ -218,14 +229,15 @@ function flush(): void {
   hoverTimers.clear();
 
   const signal: PageVisitSignal = {
-    url: location.href,
-    title: document.title,
-    referrer: document.referrer,
+    url: pageUrl,
+    title: pageTitle || document.title,
+    referrer,
     searchQuery: extractSearchQuery(),
     scrollDepth: maxScrollDepth,
     dwellTime: Date.now() - startTime,
     engagements,
     appliedTransforms,
+    templateVersion,
     visitedAt: startTime,
   };
 
@@ -240,9 +252,13 @@ function flush(): void {
 // ---------------------------------------------------------------------------
 
 export function startSignalCollection(
-  transforms: { selector: string; action: TransformAction }[]
+  transforms: { selector: string; action: TransformAction }[],
+  promptVersion?: string
 ): void {
   startTime = Date.now();
+  pageUrl = location.href;
+  pageTitle = document.title;
+  templateVersion = promptVersion;
   flushed = false;
   engagements = [];
   maxScrollDepth = 0;
@@ -251,11 +267,35 @@ export function startSignalCollection(
   window.addEventListener('scroll', onScroll, { passive: true });
 
   // Element-level engagement tracking
+  appliedTransforms = [...transforms];
+  viewedSelectors = new Set();
+  intersectionObserver = createIntersectionObserver();
   setupElementTracking(transforms);
 
-  // Flush on page hide/unload
-  document.addEventListener('visibilitychange', () => {
-    if (document.visibilityState === 'hidden') flush();
-  });
+  // Flush on page hide/unload (named handlers — a SPA re-run registers them again)
+  document.addEventListener('visibilitychange', onVisibilityChange);
   window.addEventListener('beforeunload', flush);
 }
+
+/** Track transforms applied later in the same page view (incremental passes on new content) */
+export function trackAdditionalTransforms(
+  transforms: { selector: string; action: TransformAction }[]
+): void {
+  if (flushed) return;
+  appliedTransforms.push(...transforms);
+  setupElementTracking(transforms);
+}
+
+/**
+ * End the current page view and send its signals. Called on SPA route changes
+ * before the next view starts; the old view becomes the next one's referrer.
+ */
+export function flushSignals(): void {
+  if (flushed) return;
+  flush();
+  referrer = pageUrl;
+}
+
+function onVisibilityChange(): void {
+  if (document.visibilityState === 'hidden') flush();
+}
@@ -0,0 +1,169 @@
+// src/content/transform-guard.ts
+// Keeps applied transforms applied. React / Vue re-renders can replace a
+// transformed element or reset its inline styles, silently undoing our work.
+// One MutationObserver notices, the element is re-resolved through the
+// transformer's 3-tier finder and the instruction re-applied. Components that
+// keep throwing the transform away are backed off, then given up on.
+
+import type { TransformInstruction } from '../types/interfaces.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Mutations are checked in batches — pages with animations mutate constantly */
+const CHECK_DELAY_MS = 250;
+/** After (re-)applying, let our own animations finish before judging the element */
+const SETTLE_MS = 1000;
+/** Repairs within this window count towards thrashing */
+const THRASH_WINDOW_MS = 10000;
+const THRASH_REPAIRS = 3;
+/** Backoff after thrashing doubles from here, and the entry is dropped past the last step */
+const BACKOFF_BASE_MS = 2000;
+const MAX_BACKOFF_STEPS = 4;
+/** A replaced element that can't be found again is retried this many checks before it's dropped */
+const MAX_MISSED_CHECKS = 10;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface GuardHandlers {
+  /** Find the element again (the transformer's 3-tier finder) */
+  resolve: () => HTMLElement | null;
+  /** True while the element still shows the transform */
+  isIntact: (el: HTMLElement) => boolean;
+  /** Re-apply to an element that lost the transform */
+  apply: (el: HTMLElement) => void;
+}
+
+interface GuardEntry extends GuardHandlers {
+  instruction: TransformInstruction;
+  el: HTMLElement;
+  /** No checks before this time (settling after an apply, or backing off) */
+  quietUntil: number;
+  repairs: number[];
+  backoffSteps: number;
+  missedChecks: number;
+}
+
+// ---------------------------------------------------------------------------
+// Module State
+// ---------------------------------------------------------------------------
+
+const entries = new Map<string, GuardEntry>();
+let observer: MutationObserver | null = null;
+let checkTimer: number | undefined;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Watch an element a transform was just applied to; a newer guard for the same selector replaces the old one */
+export function guardTransform(el: HTMLElement, instruction: TransformInstruction, handlers: GuardHandlers): void {
+  entries.set(instruction.selector, {
+    ...handlers,
+    instruction,
+    el,
+    quietUntil: Date.now() + SETTLE_MS,
+    repairs: [],
+    backoffSteps: 0,
+    missedChecks: 0,
+  });
+  ensureObserver();
+}
+
+/** Stop guarding one selector — the transform was undone on purpose */
+export function unguardTransform(selector: string): void {
+  entries.delete(selector);
+  if (entries.size === 0) stopTransformGuard();
+}
+
+/** Stop guarding everything (cleanup, route change) */
+export function stopTransformGuard(): void {
+  entries.clear();
+  observer?.disconnect();
+  observer = null;
+  clearTimeout(checkTimer);
+  checkTimer = undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Checking + Repair
+// ---------------------------------------------------------------------------
+
+function ensureObserver(): void {
+  if (observer) return;
+  observer = new MutationObserver(scheduleCheck);
+  observer.observe(document.body, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ['style', 'class', 'data-pb-node'],
+  });
+}
+
+function scheduleCheck(): void {
+  if (checkTimer !== undefined) return;
+  checkTimer = window.setTimeout(() => {
+    checkTimer = undefined;
+    checkAll();
+  }, CHECK_DELAY_MS);
+}
+
+function checkAll(): void {
+  const now = Date.now();
+  let deferred = false;
+
+  for (const [selector, entry] of entries) {
+    if (now < entry.quietUntil) {
+      deferred = true;
+      continue;
+    }
+    if (entry.el.isConnected && entry.isIntact(entry.el)) continue;
+
+    // Re-resolve even when still attached — the stamp may be what was dropped
+    const el = entry.resolve() ?? (entry.el.isConnected ? entry.el : null);
+    if (!el) {
+      // Probably mid re-render — look again on the next batch of mutations
+      if (++entry.missedChecks > MAX_MISSED_CHECKS) entries.delete(selector);
+      continue;
+    }
+    entry.missedChecks = 0;
+    if (el !== entry.el && entry.isIntact(el)) {
+      entry.el = el;
+      continue;
+    }
+
+    if (isThrashing(entry, now)) {
+      if (entry.backoffSteps >= MAX_BACKOFF_STEPS) {
+        console.warn(`[Predictive Browser] Giving up on ${entry.instruction.action} for ${selector} — the page keeps re-rendering it`);
+        entries.delete(selector);
+        continue;
+      }
+      entry.quietUntil = now + BACKOFF_BASE_MS * 2 ** entry.backoffSteps;
+      entry.backoffSteps++;
+      deferred = true;
+      continue;
+    }
+
+    entry.el = el;
+    entry.repairs.push(now);
+    entry.quietUntil = now + SETTLE_MS;
+    entry.apply(el);
+    deferred = true;
+    console.log(`[Predictive Browser] Re-applied ${entry.instruction.action} to ${selector} after a re-render`);
+  }
+
+  if (entries.size === 0) {
+    stopTransformGuard();
+  } else if (deferred) {
+    // Quiet entries still need a look once they've settled, mutations or not
+    window.setTimeout(scheduleCheck, SETTLE_MS);
+  }
+}
+
+function isThrashing(entry: GuardEntry, now: number): boolean {
+  entry.repairs = entry.repairs.filter(t => now - t < THRASH_WINDOW_MS);
+  return entry.repairs.length >= THRASH_REPAIRS;
+}
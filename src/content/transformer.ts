@@ -1,7 +1,24 @@
 // src/content/transformer.ts — Transform Executor + Animation System
 // Framework-aware 3-tier element finding | Variable font sizes | Viewport-filling
 
-import type { TransformResponse, TransformInstruction, PageSkeleton, SkeletonNode, LinkPreview } from '../types/interfaces.js';
+import type { TransformResponse, TransformInstruction, PageSkeleton, SkeletonNode, LinkPreview, SiteProfile } from '../types/interfaces.js';
+import { isActionAllowed } from '../shared/site-profiles.js';
+import { PAGE_STRATEGIES } from '../shared/page-classifier.js';
+import { guardTransform, unguardTransform, stopTransformGuard } from './transform-guard.js';
+import {
+  recordTransform, replaceInverse, undoTransform, redoTransform, isUndone,
+  isOriginalView, setOriginalView, clearUndoLog, type Inverse,
+} from './undo-log.js';
+
+// ---------------------------------------------------------------------------
+// Site Profile — set once by index.ts before anything is applied
+// ---------------------------------------------------------------------------
+
+let siteProfile: SiteProfile | null = null;
+
+export function setSiteProfile(profile: SiteProfile | null): void {
+  siteProfile = profile;
+}
 
 // ---------------------------------------------------------------------------
 // Framework Detection
@@ -33,6 +50,20 @@ const TIMING = {
   DIM_DURATION: 300,
 } as const;
 
+/** SkeletonNode.localScore from which the panel notes a highlight also matches the user's keywords */
+const KEYWORD_MATCH_SCORE = 0.5;
+
+/** Non-highlight changes listed (with undo) in the panel's "Also changed" section */
+const CHANGE_LABELS: Partial<Record<TransformInstruction['action'], string>> = {
+  reorder: 'Moved',
+  collapse: 'Collapsed',
+  dim: 'Dimmed',
+};
+const MAX_PANEL_CHANGES = 8;
+
+/** Collapses/removals of a node covering at least this share of the first screen are skipped */
+const MAX_REMOVED_SCREEN_SHARE = 0.5;
+
 // ---------------------------------------------------------------------------
 // CSS Injection
 // ---------------------------------------------------------------------------
@@ -97,6 +128,14 @@ function buildSelectorMap(nodes: SkeletonNode[], map: Map<string, SkeletonNode>)
   }
 }
 
+/** Copy the service worker's lexical scores onto the content script's own skeleton */
+function attachNodeScores(nodes: SkeletonNode[], scores: Record<string, number>): void {
+  for (const node of nodes) {
+    node.localScore = scores[node.id] ?? 0;
+    if (node.children.length > 0) attachNodeScores(node.children, scores);
+  }
+}
+
 /** Flat map: primary selector → fallback nth-child selector */
 function buildFallbackMap(nodes: SkeletonNode[], map: Map<string, string>): void {
   for (const node of nodes) {
@@ -229,35 +268,55 @@ function findElement(
  * relevance ≥ 80 → 1.15×
  * relevance ≥ 65 → 1.06×
  */
-function scaleFontSize(el: HTMLElement, relevance: number): void {
-  if (relevance < 65) return;
+function scaleFontSize(el: HTMLElement, relevance: number): Inverse {
+  if (relevance < 65) return noop;
 
   const tag = el.tagName.toLowerCase();
   const isTextNode = /^(p|h[1-6]|span|li|td|blockquote|cite|figcaption|label|dt|dd)$/.test(tag);
   const hasDirectText = Array.from(el.childNodes).some(
     n => n.nodeType === Node.TEXT_NODE && (n.textContent?.trim().length ?? 0) > 0
   );
-  if (!isTextNode && !hasDirectText) return;
+  if (!isTextNode && !hasDirectText) return noop;
 
   const baseSize = parseFloat(getComputedStyle(el).fontSize) || 16;
   let multiplier = 1;
   if (relevance >= 92) multiplier = 1.28;
   else if (relevance >= 80) multiplier = 1.15;
   else if (relevance >= 65) multiplier = 1.06;
-  if (multiplier === 1) return;
+  if (multiplier === 1) return noop;
 
+  const inverse = styleInverse(el, ['font-size', 'line-height'], TIMING.HIGHLIGHT_DURATION);
   el.dataset.pbOriginalFontSize = el.style.fontSize;
   el.dataset.pbOriginalLineHeight = el.style.lineHeight;
   el.style.fontSize = `${(baseSize * multiplier).toFixed(1)}px`;
   el.style.lineHeight = '1.5';
   el.style.transition = `font-size ${TIMING.HIGHLIGHT_DURATION}ms ease`;
+  return inverse;
 }
 
 // ---------------------------------------------------------------------------
-// Transform Executors
+// Transform Executors — each returns the inverse of what it did
 // ---------------------------------------------------------------------------
 
-function executeHighlight(el: HTMLElement, instruction: TransformInstruction, accent: string): void {
+const noop: Inverse = () => { /* nothing was changed */ };
+
+/** Snapshot inline style properties; the inverse transitions back to them */
+function styleInverse(el: HTMLElement, props: string[], duration: number): Inverse {
+  const saved = props.map(p => [p, el.style.getPropertyValue(p)] as const);
+  const transition = el.style.transition;
+  return () => {
+    el.style.transition = `all ${duration}ms ease`;
+    for (const [prop, value] of saved) el.style.setProperty(prop, value);
+    setTimeout(() => { el.style.transition = transition; }, duration);
+  };
+}
+
+function executeHighlight(el: HTMLElement, instruction: TransformInstruction, accent: string): Inverse {
+  const inverse = styleInverse(
+    el,
+    ['border-left', 'background-color', 'padding-left', 'border-radius', 'animation'],
+    TIMING.HIGHLIGHT_DURATION,
+  );
   el.dataset.pbOriginalBorder = el.style.borderLeft;
   el.dataset.pbOriginalBg = el.style.backgroundColor;
   el.dataset.pbOriginalPadding = el.style.paddingLeft;
@@ -274,10 +333,21 @@ function executeHighlight(el: HTMLElement, instruction: TransformInstruction, ac
     el.style.animation = 'pb-pulse 400ms ease';
   });
 
-  scaleFontSize(el, instruction.relevance);
+  const unscale = scaleFontSize(el, instruction.relevance);
+  return () => {
+    inverse();
+    unscale();
+  };
 }
 
-function executeCollapse(el: HTMLElement, _instruction: TransformInstruction): void {
+function executeCollapse(el: HTMLElement, _instruction: TransformInstruction): Inverse {
+  const original = {
+    display: el.style.display,
+    opacity: el.style.opacity,
+    maxHeight: el.style.maxHeight,
+    overflow: el.style.overflow,
+    transition: el.style.transition,
+  };
   el.dataset.pbOriginalHeight = el.offsetHeight + 'px';
   el.dataset.pbOriginalOverflow = el.style.overflow;
   el.dataset.pbOriginalMaxHeight = el.style.maxHeight;
@@ -294,35 +364,73 @@ function executeCollapse(el: HTMLElement, _instruction: TransformInstruction): v
     el.style.opacity = '0';
   });
 
-  setTimeout(() => {
+  const hideTimer = setTimeout(() => {
     el.style.display = 'none';
     el.dataset.pbCollapsed = 'true';
   }, duration);
+
+  // Expand back: show at max-height 0, then grow to the content's height
+  return () => {
+    clearTimeout(hideTimer);
+    delete el.dataset.pbCollapsed;
+    el.style.display = original.display;
+    const fullHeight = el.scrollHeight;
+    requestAnimationFrame(() => {
+      el.style.maxHeight = fullHeight + 'px';
+      el.style.opacity = original.opacity;
+    });
+    setTimeout(() => {
+      el.style.maxHeight = original.maxHeight;
+      el.style.overflow = original.overflow;
+      el.style.transition = original.transition;
+    }, duration);
+  };
 }
 
-function executeReorder(el: HTMLElement, instruction: TransformInstruction): void {
+function executeReorder(el: HTMLElement, instruction: TransformInstruction): Inverse {
   const parent = el.parentElement;
-  if (!parent) return;
+  if (!parent) return noop;
 
   const pos = getComputedStyle(el).position;
   if (pos === 'fixed' || pos === 'sticky') {
     console.warn('[Predictive Browser] Skipping reorder on fixed/sticky element:', instruction.selector);
-    return;
+    return noop;
   }
 
-  // FLIP animation
-  const startRect = el.getBoundingClientRect();
-
+  let target: Element | null;
   if (instruction.position === 'top') {
-    parent.insertBefore(el, parent.firstElementChild);
+    target = parent.firstElementChild;
   } else if (instruction.position?.startsWith('above:')) {
     const targetSel = instruction.position.replace('above:', '');
-    const targetEl = document.querySelector(targetSel);
-    if (targetEl?.parentElement) {
-      targetEl.parentElement.insertBefore(el, targetEl);
+    target = null;
+    try {
+      target = document.querySelector(targetSel);
+    } catch { /* invalid selector */ }
+    // Only move among siblings — never into another container or inside itself
+    if (!target || target === el || target.parentElement !== parent || el.contains(target)) {
+      console.warn('[Predictive Browser] Skipping reorder with invalid target:', instruction.position);
+      return noop;
     }
+  } else {
+    return noop;
   }
 
+  // Where it came from, for the inverse
+  const originalNext = el.nextSibling;
+  flipMove(el, () => parent.insertBefore(el, target));
+
+  return () => {
+    // The page may have restructured since — only move back within the same parent
+    if (el.parentElement !== parent) return;
+    flipMove(el, () => parent.insertBefore(el, originalNext?.parentNode === parent ? originalNext : null));
+  };
+}
+
+/** Move an element in the DOM, animating from its old position to the new one (FLIP) */
+function flipMove(el: HTMLElement, move: () => void): void {
+  const startRect = el.getBoundingClientRect();
+  move();
+
   const endRect = el.getBoundingClientRect();
   const dy = startRect.top - endRect.top;
   const dx = startRect.left - endRect.left;
@@ -343,8 +451,9 @@ function executeReorder(el: HTMLElement, instruction: TransformInstruction): voi
   }, TIMING.REORDER_DURATION + 60);
 }
 
-function executeAnnotate(el: HTMLElement, instruction: TransformInstruction): void {
-  if (!instruction.annotation) return;
+/** `inside` puts the badge at the top of the element itself, so it travels with it when results are reordered */
+function executeAnnotate(el: HTMLElement, instruction: TransformInstruction, placement: 'before' | 'inside' = 'before'): Inverse {
+  if (!instruction.annotation) return noop;
 
   const badgeClass = (instruction as TransformInstruction & { badgeClass?: string }).badgeClass ?? 'pb-annotation-badge';
   const badge = document.createElement('div');
@@ -352,15 +461,25 @@ function executeAnnotate(el: HTMLElement, instruction: TransformInstruction): vo
   badge.textContent = instruction.annotation;
   badge.style.cssText = `opacity: 0; transform: translateY(-4px); transition: opacity ${TIMING.ANNOTATE_DURATION}ms ease, transform ${TIMING.ANNOTATE_DURATION}ms ease;`;
 
-  el.parentElement?.insertBefore(badge, el);
+  if (placement === 'inside') {
+    el.insertBefore(badge, el.firstChild);
+  } else {
+    el.parentElement?.insertBefore(badge, el);
+  }
 
   requestAnimationFrame(() => {
     badge.style.opacity = '1';
     badge.style.transform = 'translateY(0)';
   });
+
+  return () => {
+    badge.style.opacity = '0';
+    setTimeout(() => badge.remove(), TIMING.ANNOTATE_DURATION);
+  };
 }
 
-function executeDim(el: HTMLElement, _instruction: TransformInstruction): void {
+function executeDim(el: HTMLElement, _instruction: TransformInstruction): Inverse {
+  const inverse = styleInverse(el, ['opacity', 'pointer-events'], TIMING.DIM_DURATION);
   el.dataset.pbOriginalOpacity = el.style.opacity;
   el.dataset.pbOriginalPointerEvents = el.style.pointerEvents;
 
@@ -369,6 +488,7 @@ function executeDim(el: HTMLElement, _instruction: TransformInstruction): void {
     el.style.opacity = '0.12';
     el.style.pointerEvents = 'none';
   });
+  return inverse;
 }
 
 // ---------------------------------------------------------------------------
@@ -514,12 +634,41 @@ export function updatePanelWithLinkPreviews(previews: LinkPreview[]): void {
   }
 }
 
+/**
+ * Keep the digest panel in sync with a response that is still streaming in.
+ * Text-only changes update in place; new highlights rebuild the panel
+ * (without replaying the slide-in animation).
+ */
+export function updateStreamingPanel(response: TransformResponse, skeleton?: PageSkeleton): void {
+  if (!response.inferredIntent) return;
+
+  const panel = document.getElementById('pb-digest');
+  const highlightCount = String(response.transforms.filter(t => t.action === 'highlight').length);
+  if (panel && panel.dataset.pbHighlightCount === highlightCount) {
+    const intentEl = document.getElementById('pb-digest-intent');
+    const summaryEl = document.getElementById('pb-digest-summary');
+    if (intentEl) intentEl.textContent = response.inferredIntent;
+    if (summaryEl && response.digest) summaryEl.textContent = response.digest;
+    // Only fall through to a rebuild when the digest section doesn't exist yet
+    if (summaryEl || !response.digest) return;
+  }
+
+  const selectorMap = new Map<string, SkeletonNode>();
+  if (skeleton) buildSelectorMap(skeleton.nodes, selectorMap);
+  injectDigestPanel(response, selectorMap, skeleton);
+}
+
 function injectDigestPanel(
   response: TransformResponse,
   selectorMap: Map<string, SkeletonNode>,
   _skeleton?: PageSkeleton,
 ): void {
-  document.getElementById('pb-digest')?.remove();
+  if (siteProfile && !siteProfile.showPanel) return;
+
+  // Replacing an existing panel (streaming updates, final pass) shouldn't slide in again
+  const existing = document.getElementById('pb-digest');
+  const animate = !existing;
+  existing?.remove();
 
   const { fontFamily, isDark, accent } = getSiteStyle();
   const panelBg     = isDark ? 'rgba(8,8,16,0.97)'     : 'rgba(252,252,254,0.97)';
@@ -530,11 +679,17 @@ function injectDigestPanel(
   const cardBg      = isDark ? 'rgba(255,255,255,0.04)' : 'rgba(0,0,0,0.025)';
   const headerBg    = isDark ? 'rgba(255,255,255,0.03)' : 'rgba(0,0,0,0.02)';
 
+  // Equal model relevance → the stronger keyword match for the user's focus first
+  const localScore = (t: TransformInstruction): number => selectorMap.get(t.selector)?.localScore ?? 0;
   const highlights = response.transforms
     .filter(t => t.action === 'highlight')
-    .sort((a, b) => b.relevance - a.relevance)
+    .sort((a, b) => b.relevance - a.relevance || localScore(b) - localScore(a))
     .slice(0, 5);
 
+  const otherChanges = response.transforms
+    .filter(t => t.action in CHANGE_LABELS)
+    .slice(0, MAX_PANEL_CHANGES);
+
   const annotatedLinks = response.transforms
     .filter(t => t.action === 'annotate')
     .map(t => ({ t, node: selectorMap.get(t.selector) }))
@@ -554,8 +709,9 @@ function injectDigestPanel(
     z-index: 2147483646; overflow-y: auto; overflow-x: hidden;
     font-family: ${fontFamily}; color: ${panelText};
     box-sizing: border-box; display: flex; flex-direction: column;
-    animation: pb-slide-in-right 300ms cubic-bezier(0.25,0.46,0.45,0.94) forwards;
+    ${animate ? 'animation: pb-slide-in-right 300ms cubic-bezier(0.25,0.46,0.45,0.94) forwards;' : ''}
   `;
+  panel.dataset.pbHighlightCount = String(response.transforms.filter(t => t.action === 'highlight').length);
 
   // ── Header ───────────────────────────────────────────────────────────────
   const header = document.createElement('div');
@@ -573,7 +729,32 @@ function injectDigestPanel(
   `;
   intentLabel.textContent = '\u26A1 Predictive Browser';
 
+  // What the classifier took this page for — explains why e.g. an article got no reorders
+  if (response.pageType && response.pageType !== 'general') {
+    const typeTag = document.createElement('span');
+    typeTag.id = 'pb-digest-page-type';
+    typeTag.style.cssText = `
+      margin-left: 8px; padding: 1px 6px; border-radius: 8px;
+      border: 1px solid ${borderColor}; color: ${mutedColor}; letter-spacing: 0.06em;
+    `;
+    typeTag.textContent = PAGE_STRATEGIES[response.pageType].label;
+    intentLabel.appendChild(typeTag);
+  }
+
+  const viewToggle = document.createElement('button');
+  viewToggle.id = 'pb-view-toggle';
+  viewToggle.title = 'Toggle between the original and the predicted page';
+  viewToggle.style.cssText = `
+    float: right; background: none; border: 1px solid ${borderColor};
+    border-radius: 8px; cursor: pointer; padding: 1px 7px;
+    font: 600 10px ${fontFamily}; text-transform: none; letter-spacing: 0;
+    color: ${accent};
+  `;
+  viewToggle.onclick = () => toggleOriginalView();
+  intentLabel.appendChild(viewToggle);
+
   const intentText = document.createElement('div');
+  intentText.id = 'pb-digest-intent';
   intentText.style.cssText = `font-size: 13px; font-weight: 600; line-height: 1.4; color: ${panelText};`;
   intentText.textContent = response.inferredIntent;
 
@@ -595,6 +776,25 @@ function injectDigestPanel(
   header.appendChild(closeBtn);
   panel.appendChild(header);
 
+  // Undo / redo one transform — state comes from the undo log, so rebuilt panels stay in sync
+  const makeUndoBtn = (selector: string): HTMLButtonElement => {
+    const btn = document.createElement('button');
+    btn.className = 'pb-undo-btn';
+    btn.dataset.pbUndoSelector = selector;
+    btn.style.cssText = `
+      background: none; border: 1px solid ${borderColor}; border-radius: 4px;
+      cursor: pointer; padding: 1px 6px; flex-shrink: 0;
+      font: 500 10px ${fontFamily}; color: ${mutedColor};
+    `;
+    btn.onclick = (e) => {
+      e.stopPropagation(); // not a jump
+      if (isUndone(selector)) redoTransform(selector);
+      else undoTransform(selector);
+      syncUndoControls();
+    };
+    return btn;
+  };
+
   // ── Section factory ──────────────────────────────────────────────────────
   const makeSec = (label: string, id?: string): HTMLDivElement => {
     const sec = document.createElement('div');
@@ -692,10 +892,13 @@ function injectDigestPanel(
 
       const pctLabel = document.createElement('div');
       pctLabel.style.cssText = `font-size: 10px; color: ${mutedColor}; flex-shrink: 0;`;
-      pctLabel.textContent = `${t.relevance}%`;
+      pctLabel.textContent = localScore(t) >= KEYWORD_MATCH_SCORE
+        ? `${t.relevance}% \u00B7 keyword match`
+        : `${t.relevance}%`;
 
       barRow.appendChild(barTrack);
       barRow.appendChild(pctLabel);
+      barRow.appendChild(makeUndoBtn(t.selector));
 
       card.appendChild(jumpHint);
       card.appendChild(snippet);
@@ -706,11 +909,43 @@ function injectDigestPanel(
     panel.appendChild(sec);
   }
 
+  // ── Also changed (collapses, dims, reorders — each undoable) ─────────────
+  if (otherChanges.length > 0) {
+    const sec = makeSec(`Also changed\u2002(${otherChanges.length})`);
+
+    for (const t of otherChanges) {
+      const row = document.createElement('div');
+      row.style.cssText = `display: flex; align-items: center; gap: 8px; margin-bottom: 6px;`;
+
+      const tag = document.createElement('div');
+      tag.style.cssText = `
+        font-size: 9px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.06em;
+        color: ${mutedColor}; width: 62px; flex-shrink: 0;
+      `;
+      tag.textContent = CHANGE_LABELS[t.action] ?? '';
+
+      const text = document.createElement('div');
+      text.style.cssText = `
+        flex: 1; min-width: 0; font-size: 12px; color: ${bodyMuted};
+        white-space: nowrap; overflow: hidden; text-overflow: ellipsis;
+      `;
+      text.textContent = (selectorMap.get(t.selector)?.textPreview ?? t.reason).trim();
+      text.title = t.reason;
+
+      row.appendChild(tag);
+      row.appendChild(text);
+      row.appendChild(makeUndoBtn(t.selector));
+      sec.appendChild(row);
+    }
+    panel.appendChild(sec);
+  }
+
   // ── Page summary ─────────────────────────────────────────────────────────
   const digestText = response.digest ?? response.summary;
   if (digestText) {
     const sec = makeSec('Page summary');
     const txt = document.createElement('div');
+    txt.id = 'pb-digest-summary';
     txt.style.cssText = `
       font-size: 13px; line-height: 1.7; color: ${bodyMuted};
       border-left: 2px solid ${toRgba(accent, 0.25)};
@@ -752,10 +987,26 @@ function injectDigestPanel(
   };
 
   document.body.appendChild(panel);
+  syncUndoControls();
+}
+
+/** Flip the page between the original and the predicted view (panel toggle, keyboard shortcut) */
+export function toggleOriginalView(): void {
+  setOriginalView(!isOriginalView());
+  syncUndoControls();
+  console.log(`[Predictive Browser] Showing the ${isOriginalView() ? 'original' : 'predicted'} page`);
+}
+
+function syncUndoControls(): void {
+  const toggle = document.getElementById('pb-view-toggle');
+  if (toggle) toggle.textContent = isOriginalView() ? 'Show predicted' : 'Show original';
+  document.querySelectorAll<HTMLElement>('.pb-undo-btn').forEach(btn => {
+    btn.textContent = isUndone(btn.dataset.pbUndoSelector ?? '') ? 'Redo' : 'Undo';
+  });
 }
 
 // ---------------------------------------------------------------------------
-// Ancestor-Collapse Check
+// Removal Checks — collapsed ancestors, first-screen content
 // ---------------------------------------------------------------------------
 
 /** True if the element is inside an already-collapsed ancestor (skip it) */
@@ -768,6 +1019,14 @@ function hasCollapsedAncestor(el: HTMLElement): boolean {
   return false;
 }
 
+/** Collapsing a node that fills most of the first screen would leave the user looking at a blank page */
+function fillsFirstScreen(node: SkeletonNode | undefined): boolean {
+  const layout = node?.layout;
+  if (!layout || !node?.aboveFold) return false;
+  const onScreen = layout.width * layout.height * layout.visibleFraction;
+  return onScreen >= MAX_REMOVED_SCREEN_SHARE * window.innerWidth * window.innerHeight;
+}
+
 // ---------------------------------------------------------------------------
 // Main Orchestrator
 // ---------------------------------------------------------------------------
@@ -784,11 +1043,13 @@ export async function applyTransforms(response: TransformResponse, skeleton?: Pa
 
   const framework = detectFramework();
   console.log(`[Predictive Browser] Framework: ${framework}`);
+  if (isOriginalView()) console.log('[Predictive Browser] Showing the original page — new transforms wait for the toggle');
 
   // Build lookup maps from skeleton nodes
   const selectorMap = new Map<string, SkeletonNode>();
   const fallbackMap = new Map<string, string>();
   if (skeleton) {
+    if (response.nodeScores) attachNodeScores(skeleton.nodes, response.nodeScores);
     buildSelectorMap(skeleton.nodes, selectorMap);
     buildFallbackMap(skeleton.nodes, fallbackMap);
   }
@@ -798,8 +1059,9 @@ export async function applyTransforms(response: TransformResponse, skeleton?: Pa
 
   // Separate positive transforms (reorder/highlight) from negative (collapse/dim)
   // Process positive ones first so they're not accidentally collapsed
+  // Actions the site profile forbids never touch the page, whatever the model (or cache) said
   const positiveActions = new Set<string>(['reorder', 'highlight', 'annotate']);
-  const sorted = [...response.transforms].sort((a, b) => {
+  const sorted = response.transforms.filter(t => isActionAllowed(siteProfile, t.action)).sort((a, b) => {
     const aPriority = positiveActions.has(a.action) ? 1 : 0;
     const bPriority = positiveActions.has(b.action) ? 1 : 0;
     if (aPriority !== bPriority) return bPriority - aPriority;
@@ -808,6 +1070,7 @@ export async function applyTransforms(response: TransformResponse, skeleton?: Pa
 
   let found = 0;
   let missed = 0;
+  let alreadyApplied = 0;
 
   for (const instruction of sorted) {
     const el = findElement(instruction.selector, selectorMap, fallbackMap, framework);
@@ -818,27 +1081,26 @@ export async function applyTransforms(response: TransformResponse, skeleton?: Pa
       continue;
     }
 
-    // Skip already-transformed and elements inside collapsed ancestors
-    if (el.dataset.pbTransformed) continue;
+    // Skip already-transformed (e.g. by an earlier streamed batch) and elements inside collapsed ancestors
+    if (el.dataset.pbTransformed) {
+      alreadyApplied++;
+      continue;
+    }
     if (hasCollapsedAncestor(el)) continue;
+    const removes = instruction.action === 'collapse' || (instruction.action === 'dim' && removeGrayedSections);
+    if (removes && fillsFirstScreen(selectorMap.get(instruction.selector))) {
+      console.warn(`[Predictive Browser] Not removing ${instruction.selector} — it fills most of the first screen`);
+      continue;
+    }
 
     await delay(TIMING.STAGGER_DELAY);
 
     el.dataset.pbTransformed = 'true';
-
-    switch (instruction.action) {
-      case 'highlight': executeHighlight(el, instruction, accent); break;
-      case 'collapse':  executeCollapse(el, instruction);          break;
-      case 'reorder':   executeReorder(el, instruction);           break;
-      case 'annotate':  /* data used by panel only — no DOM badge injected */ break;
-      case 'dim':
-        if (removeGrayedSections) {
-          executeCollapse(el, instruction); // fully remove
-        } else {
-          executeDim(el, instruction);      // just grey
-        }
-        break;
-    }
+    commitTransform(el, instruction, {
+      accent,
+      removeGrayedSections,
+      resolve: () => findElement(instruction.selector, selectorMap, fallbackMap, framework),
+    });
 
     found++;
   }
@@ -846,12 +1108,92 @@ export async function applyTransforms(response: TransformResponse, skeleton?: Pa
   console.log(`[Predictive Browser] Applied ${found} transforms, missed ${missed} (${framework})`);
 
   // Show digest panel only on primary passes (where we have an inferred intent)
-  if (found > 0 && response.inferredIntent) {
+  if ((found > 0 || alreadyApplied > 0) && response.inferredIntent) {
     injectDigestPanel(response, selectorMap, skeleton);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }
 }
 
+/** How to tell a guarded element still shows its transform; null for actions that aren't guarded */
+function intactCheck(instruction: TransformInstruction, removeGrayedSections: boolean): ((el: HTMLElement) => boolean) | null {
+  const hidden = (el: HTMLElement): boolean =>
+    !!el.dataset.pbTransformed && (el.style.display === 'none' || el.style.maxHeight === '0px');
+
+  switch (instruction.action) {
+    case 'highlight':
+      return (el) => !!el.dataset.pbTransformed && el.style.borderLeft.startsWith('3px');
+    case 'collapse':
+      return hidden;
+    case 'dim':
+      return removeGrayedSections ? hidden : (el) => !!el.dataset.pbTransformed && el.style.opacity === '0.12';
+    default:
+      return null;
+  }
+}
+
+interface ApplyContext {
+  accent: string;
+  removeGrayedSections: boolean;
+  /** Find the element again (3-tier finder) */
+  resolve: () => HTMLElement | null;
+}
+
+function executeTransform(el: HTMLElement, instruction: TransformInstruction, ctx: ApplyContext): Inverse {
+  switch (instruction.action) {
+    case 'highlight': return executeHighlight(el, instruction, ctx.accent);
+    case 'collapse':  return executeCollapse(el, instruction);
+    case 'reorder':   return executeReorder(el, instruction);
+    case 'annotate':
+      // Data used by the panel only — except on search results, which have no skeleton node to list there
+      return el.hasAttribute('data-pb-serp') ? executeAnnotate(el, instruction, 'inside') : noop;
+    case 'dim':
+      return ctx.removeGrayedSections
+        ? executeCollapse(el, instruction) // fully remove
+        : executeDim(el, instruction);     // just grey
+    default:
+      return noop;
+  }
+}
+
+/**
+ * Apply a transform through the undo log (so it can be undone, and waits if the
+ * page is showing the original) and, while it's showing, guard it against re-renders.
+ */
+function commitTransform(el: HTMLElement, instruction: TransformInstruction, ctx: ApplyContext): void {
+  // Style-only transforms are what re-renders silently undo — keep them applied
+  const isIntact = intactCheck(instruction, ctx.removeGrayedSections);
+  let current = el;
+
+  const undoable = (inverse: Inverse): Inverse => () => {
+    unguardTransform(instruction.selector);
+    inverse();
+  };
+
+  recordTransform(instruction, () => {
+    if (!current.isConnected) current = ctx.resolve() ?? current;
+    const inverse = executeTransform(current, instruction, ctx);
+    if (isIntact) {
+      guardTransform(current, instruction, {
+        resolve: ctx.resolve,
+        isIntact,
+        apply: (target) => {
+          current = target;
+          replaceInverse(instruction.selector, undoable(reapplyTransform(target, instruction, ctx)));
+        },
+      });
+    }
+    return undoable(inverse);
+  });
+}
+
+/** Re-apply after a re-render. Whatever survived of the old transform is reset first so nothing compounds */
+function reapplyTransform(el: HTMLElement, instruction: TransformInstruction, ctx: ApplyContext): Inverse {
+  restoreOriginalStyles(el);
+  el.dataset.pbTransformed = 'true';
+  delete el.dataset.pbCollapsed;
+  return executeTransform(el, instruction, ctx);
+}
+
 function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -924,23 +1266,14 @@ function getTestSelector(el: Element): string {
 // ---------------------------------------------------------------------------
 
 export function cleanupTransforms(): void {
+  stopTransformGuard();
+  // Undo through the log first — the only record of where reordered elements came from
+  clearUndoLog();
   document.querySelectorAll('.pb-annotation-badge, .pb-link-preview-badge').forEach(el => el.remove());
   document.getElementById('pb-digest')?.remove();
 
   document.querySelectorAll<HTMLElement>('[data-pb-transformed], [data-pb-collapsed]').forEach(el => {
-    if (el.dataset.pbOriginalBorder !== undefined)       el.style.borderLeft       = el.dataset.pbOriginalBorder;
-    if (el.dataset.pbOriginalBg !== undefined)           el.style.backgroundColor  = el.dataset.pbOriginalBg;
-    if (el.dataset.pbOriginalPadding !== undefined)      el.style.paddingLeft      = el.dataset.pbOriginalPadding;
-    if (el.dataset.pbOriginalOpacity !== undefined)      el.style.opacity          = el.dataset.pbOriginalOpacity;
-    if (el.dataset.pbOriginalPointerEvents !== undefined) el.style.pointerEvents   = el.dataset.pbOriginalPointerEvents;
-    if (el.dataset.pbOriginalFontSize !== undefined)     el.style.fontSize         = el.dataset.pbOriginalFontSize;
-    if (el.dataset.pbOriginalLineHeight !== undefined)   el.style.lineHeight       = el.dataset.pbOriginalLineHeight;
-    if (el.dataset.pbOriginalMaxHeight !== undefined) {
-      el.style.maxHeight  = el.dataset.pbOriginalMaxHeight;
-      el.style.overflow   = el.dataset.pbOriginalOverflow ?? '';
-      el.style.display    = '';
-      el.style.opacity    = '';
-    }
+    restoreOriginalStyles(el);
 
     // Remove all pb- data attributes
     for (const key of Object.keys(el.dataset)) {
@@ -948,6 +1281,24 @@ export function cleanupTransforms(): void {
     }
   });
 
-  // Remove stable node stamps added by extractor
+  // Remove stable node stamps added by the extractors
   document.querySelectorAll('[data-pb-node]').forEach(el => el.removeAttribute('data-pb-node'));
+  document.querySelectorAll('[data-pb-serp]').forEach(el => el.removeAttribute('data-pb-serp'));
+}
+
+/** Put back the inline styles a transform replaced (values saved in data-pb-original-*) */
+function restoreOriginalStyles(el: HTMLElement): void {
+  if (el.dataset.pbOriginalBorder !== undefined)       el.style.borderLeft       = el.dataset.pbOriginalBorder;
+  if (el.dataset.pbOriginalBg !== undefined)           el.style.backgroundColor  = el.dataset.pbOriginalBg;
+  if (el.dataset.pbOriginalPadding !== undefined)      el.style.paddingLeft      = el.dataset.pbOriginalPadding;
+  if (el.dataset.pbOriginalOpacity !== undefined)      el.style.opacity          = el.dataset.pbOriginalOpacity;
+  if (el.dataset.pbOriginalPointerEvents !== undefined) el.style.pointerEvents   = el.dataset.pbOriginalPointerEvents;
+  if (el.dataset.pbOriginalFontSize !== undefined)     el.style.fontSize         = el.dataset.pbOriginalFontSize;
+  if (el.dataset.pbOriginalLineHeight !== undefined)   el.style.lineHeight       = el.dataset.pbOriginalLineHeight;
+  if (el.dataset.pbOriginalMaxHeight !== undefined) {
+    el.style.maxHeight  = el.dataset.pbOriginalMaxHeight;
+    el.style.overflow   = el.dataset.pbOriginalOverflow ?? '';
+    el.style.display    = '';
+    el.style.opacity    = '';
+  }
 }
@@ -0,0 +1,110 @@
+// src/content/undo-log.ts
+// Every applied transform is recorded with its inverse, so any one of them can
+// be undone from the digest panel and the whole page can be flipped between
+// the original and the predicted view (panel toggle or keyboard shortcut).
+// The transformer supplies the closures; this module only tracks state.
+
+import type { TransformInstruction } from '../types/interfaces.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Animates an element back to how it was before a transform */
+export type Inverse = () => void;
+
+interface UndoEntry {
+  instruction: TransformInstruction;
+  /** (Re-)apply the transform, returning the inverse of that application */
+  apply: () => Inverse;
+  /** Inverse of the current application — null while the transform isn't showing */
+  inverse: Inverse | null;
+  /** Undone on its own by the user — switching back to the predicted view leaves it undone */
+  dismissed: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Module State
+// ---------------------------------------------------------------------------
+
+/** In application order — undone newest first, so reorders unwind cleanly */
+const entries = new Map<string, UndoEntry>();
+let originalView = false;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Record a transform and apply it — unless the page is showing the original, then it waits for the toggle */
+export function recordTransform(instruction: TransformInstruction, apply: () => Inverse): void {
+  entries.set(instruction.selector, {
+    instruction,
+    apply,
+    inverse: originalView ? null : apply(),
+    dismissed: false,
+  });
+}
+
+/** The transform was re-applied outside the log (re-render repair) — keep its inverse current */
+export function replaceInverse(selector: string, inverse: Inverse): void {
+  const entry = entries.get(selector);
+  if (entry?.inverse) entry.inverse = inverse;
+}
+
+export function undoTransform(selector: string): void {
+  const entry = entries.get(selector);
+  if (!entry) return;
+  entry.dismissed = true;
+  entry.inverse?.();
+  entry.inverse = null;
+}
+
+export function redoTransform(selector: string): void {
+  const entry = entries.get(selector);
+  if (!entry) return;
+  entry.dismissed = false;
+  reapply(entry);
+}
+
+export function isUndone(selector: string): boolean {
+  const entry = entries.get(selector);
+  return !!entry && !entry.inverse;
+}
+
+export function isOriginalView(): boolean {
+  return originalView;
+}
+
+/** Flip the whole page between the original and the predicted view */
+export function setOriginalView(original: boolean): void {
+  originalView = original;
+  if (original) {
+    for (const entry of [...entries.values()].reverse()) {
+      entry.inverse?.();
+      entry.inverse = null;
+    }
+  } else {
+    for (const entry of [...entries.values()]) {
+      if (!entry.dismissed) reapply(entry);
+    }
+  }
+}
+
+/** Undo everything and forget it (cleanup, route change) */
+export function clearUndoLog(): void {
+  setOriginalView(true);
+  entries.clear();
+  originalView = false;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Apply again if not showing, moving the entry to the end so undo order follows application order */
+function reapply(entry: UndoEntry): void {
+  if (entry.inverse) return;
+  entries.delete(entry.instruction.selector);
+  entries.set(entry.instruction.selector, entry);
+  entry.inverse = entry.apply();
+}
@@ -0,0 +1,702 @@
+// Options page script — advanced settings that don't fit in the popup.
+// Reads and writes individual fields of "extensionSettings" so it never
+// clobbers what the popup manages (and vice versa).
+
+import type {
+  PromptTemplateName,
+  PromptTemplateOverride,
+  SiteProfile,
+  TransformAction,
+  TransformIntensity,
+  RulePack,
+  LearnedRule,
+  PagePolicy,
+  PageGuardLogEntry,
+} from '../types/interfaces.js';
+import {
+  DEFAULT_TEMPLATES,
+  DEFAULT_TEMPLATE_VERSION,
+  TEMPLATE_PLACEHOLDERS,
+  TEMPLATE_LABELS,
+} from '../shared/prompt-templates.js';
+import { ALL_ACTIONS } from '../shared/site-profiles.js';
+import {
+  loadRulePacks,
+  saveRulePacks,
+  parseRulePacks,
+  exportRulePacks,
+  createRulePackId,
+  loadLearnedRules,
+  saveLearnedRules,
+} from '../shared/rule-packs.js';
+
+const EXAMPLE_RULES = `[
+  { "hostPattern": "example.com", "selector": ".sponsored", "action": "collapse" },
+  { "hostPattern": "example.com", "textMatch": "Pricing", "action": "highlight" }
+]`;
+
+const TEMPLATE_NAMES = Object.keys(DEFAULT_TEMPLATES) as PromptTemplateName[];
+
+/** Guard decisions listed — one per host, newest first */
+const MAX_GUARD_LOG_ITEMS = 10;
+
+const POLICY_LABELS: Record<PagePolicy, string> = {
+  llm: "always model",
+  rules_only: "rules only",
+  skip: "left alone",
+};
+
+// ---------------------------------------------------------------------------
+// DOM Elements
+// ---------------------------------------------------------------------------
+const statusDiv = document.getElementById("status") as HTMLDivElement;
+
+const siteList = document.getElementById("site-list") as HTMLDivElement;
+const newSiteBtn = document.getElementById("new-site") as HTMLButtonElement;
+const siteEditor = document.getElementById("site-editor") as HTMLDivElement;
+const sitePatternInput = document.getElementById("site-pattern") as HTMLInputElement;
+const siteIntensitySelect = document.getElementById("site-intensity") as HTMLSelectElement;
+const sitePolicySelect = document.getElementById("site-policy") as HTMLSelectElement;
+const siteEnabledToggle = document.getElementById("site-enabled") as HTMLInputElement;
+const siteInstructions = document.getElementById("site-instructions") as HTMLTextAreaElement;
+const siteActions = document.getElementById("site-actions") as HTMLDivElement;
+const siteBannerToggle = document.getElementById("site-banner") as HTMLInputElement;
+const sitePanelToggle = document.getElementById("site-panel") as HTMLInputElement;
+const siteWarning = document.getElementById("site-warning") as HTMLDivElement;
+const siteCancelBtn = document.getElementById("site-cancel") as HTMLButtonElement;
+const siteSaveBtn = document.getElementById("site-save") as HTMLButtonElement;
+const guardLogList = document.getElementById("guard-log") as HTMLDivElement;
+
+const packList = document.getElementById("pack-list") as HTMLDivElement;
+const newPackBtn = document.getElementById("new-pack") as HTMLButtonElement;
+const importPacksBtn = document.getElementById("import-packs") as HTMLButtonElement;
+const exportPacksBtn = document.getElementById("export-packs") as HTMLButtonElement;
+const importFileInput = document.getElementById("import-file") as HTMLInputElement;
+const packEditor = document.getElementById("pack-editor") as HTMLDivElement;
+const packNameInput = document.getElementById("pack-name") as HTMLInputElement;
+const packDescriptionInput = document.getElementById("pack-description") as HTMLInputElement;
+const packEnabledToggle = document.getElementById("pack-enabled") as HTMLInputElement;
+const packRulesInput = document.getElementById("pack-rules") as HTMLTextAreaElement;
+const packWarning = document.getElementById("pack-warning") as HTMLDivElement;
+const packCancelBtn = document.getElementById("pack-cancel") as HTMLButtonElement;
+const packSaveBtn = document.getElementById("pack-save") as HTMLButtonElement;
+
+const learnedList = document.getElementById("learned-list") as HTMLDivElement;
+
+const defaultVersionSpan = document.getElementById("default-version") as HTMLSpanElement;
+const templateList = document.getElementById("template-list") as HTMLDivElement;
+const newTemplateBtn = document.getElementById("new-template") as HTMLButtonElement;
+const templateEditor = document.getElementById("template-editor") as HTMLDivElement;
+const templateNameSelect = document.getElementById("template-name") as HTMLSelectElement;
+const templateDomainInput = document.getElementById("template-domain") as HTMLInputElement;
+const templateEnabledToggle = document.getElementById("template-enabled") as HTMLInputElement;
+const templatePlaceholders = document.getElementById("template-placeholders") as HTMLDivElement;
+const templateBody = document.getElementById("template-body") as HTMLTextAreaElement;
+const templateWarning = document.getElementById("template-warning") as HTMLDivElement;
+const templateResetBtn = document.getElementById("template-reset") as HTMLButtonElement;
+const templateCancelBtn = document.getElementById("template-cancel") as HTMLButtonElement;
+const templateSaveBtn = document.getElementById("template-save") as HTMLButtonElement;
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+let templateOverrides: PromptTemplateOverride[] = [];
+/** Index of the override being edited, or -1 for a new one */
+let editingIndex = -1;
+
+let siteProfiles: SiteProfile[] = [];
+/** Index of the site profile being edited, or -1 for a new one */
+let editingSiteIndex = -1;
+const actionToggles = new Map<TransformAction, HTMLInputElement>();
+let guardLog: PageGuardLogEntry[] = [];
+
+let rulePacks: RulePack[] = [];
+/** Index of the pack being edited, or -1 for a new one */
+let editingPackIndex = -1;
+
+let learnedRules: LearnedRule[] = [];
+
+// ---------------------------------------------------------------------------
+// On load
+// ---------------------------------------------------------------------------
+document.addEventListener("DOMContentLoaded", async () => {
+  defaultVersionSpan.textContent = `Shipped templates: v${DEFAULT_TEMPLATE_VERSION}`;
+  for (const name of TEMPLATE_NAMES) {
+    const option = document.createElement("option");
+    option.value = name;
+    option.textContent = TEMPLATE_LABELS[name];
+    templateNameSelect.appendChild(option);
+  }
+  for (const action of ALL_ACTIONS) {
+    const label = document.createElement("label");
+    label.className = "checkbox-option";
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    const text = document.createElement("span");
+    text.textContent = action;
+    label.append(input, text);
+    siteActions.appendChild(label);
+    actionToggles.set(action, input);
+  }
+
+  try {
+    const settings = await loadSettings();
+    templateOverrides = (settings["promptTemplates"] as PromptTemplateOverride[] | undefined) ?? [];
+    siteProfiles = (settings["siteProfiles"] as SiteProfile[] | undefined) ?? [];
+    rulePacks = await loadRulePacks();
+    learnedRules = await loadLearnedRules();
+    const stored = await chrome.storage.local.get("pageGuardLog");
+    guardLog = (stored["pageGuardLog"] as PageGuardLogEntry[] | undefined) ?? [];
+  } catch (e) {
+    console.error("[Predictive Browser Options] Could not load settings:", e);
+  }
+  renderSiteList();
+  renderGuardLog();
+  renderPackList();
+  renderLearnedList();
+  renderTemplateList();
+});
+
+// ---------------------------------------------------------------------------
+// Site Profiles
+// ---------------------------------------------------------------------------
+
+function renderSiteList(): void {
+  siteList.replaceChildren();
+  if (siteProfiles.length === 0) {
+    siteList.appendChild(emptyNote("No site profiles — every site uses the global settings."));
+    return;
+  }
+
+  siteProfiles.forEach((profile, index) => {
+    const item = document.createElement("div");
+    item.className = `list-item${profile.enabled ? "" : " disabled"}`;
+
+    const text = document.createElement("div");
+    text.className = "grow";
+    const title = document.createElement("div");
+    title.className = "title";
+    title.textContent = profile.hostPattern;
+    const detail = document.createElement("div");
+    detail.className = "muted";
+    detail.textContent = [
+      profile.instructions.trim() && `"${truncate(profile.instructions.trim(), 60)}"`,
+      profile.disabledActions.length > 0 && `no ${profile.disabledActions.join("/")}`,
+      profile.intensity,
+      profile.llmPolicy && profile.llmPolicy !== "auto" && POLICY_LABELS[profile.llmPolicy],
+      !profile.showBanner && "no banner",
+      !profile.showPanel && "no panel",
+      !profile.enabled && "disabled",
+    ].filter(Boolean).join(" · ") || "no overrides";
+    text.append(title, detail);
+
+    const edit = button("Edit", "btn btn-secondary", () => openSiteEditor(index));
+    const remove = button("Delete", "btn btn-danger", async () => {
+      siteProfiles.splice(index, 1);
+      await saveSiteProfiles("Site profile deleted.");
+    });
+
+    item.append(text, edit, remove);
+    siteList.appendChild(item);
+  });
+}
+
+/** Why the page guard kept the model off recent pages, with a shortcut to override it per site */
+function renderGuardLog(): void {
+  guardLogList.replaceChildren();
+  const seen = new Set<string>();
+  const recent = [...guardLog].reverse().filter(entry => {
+    if (seen.has(entry.host)) return false;
+    seen.add(entry.host);
+    return true;
+  }).slice(0, MAX_GUARD_LOG_ITEMS);
+  if (recent.length === 0) {
+    guardLogList.appendChild(emptyNote("The page guard hasn't kept the model off any page yet."));
+    return;
+  }
+
+  for (const entry of recent) {
+    const item = document.createElement("div");
+    item.className = "list-item";
+
+    const text = document.createElement("div");
+    text.className = "grow";
+    const title = document.createElement("div");
+    title.className = "title";
+    title.textContent = entry.host;
+    const detail = document.createElement("div");
+    detail.className = "muted";
+    detail.textContent = [
+      POLICY_LABELS[entry.policy],
+      truncate(entry.reasons.join("; "), 80),
+      new Date(entry.at).toLocaleString(),
+    ].filter(Boolean).join(" · ");
+    text.append(title, detail);
+
+    const override = button("Override", "btn btn-secondary", () => {
+      const index = siteProfiles.findIndex(p => p.hostPattern === entry.host);
+      openSiteEditor(index);
+      if (index === -1) sitePatternInput.value = entry.host;
+      sitePolicySelect.focus();
+    });
+
+    item.append(text, override);
+    guardLogList.appendChild(item);
+  }
+}
+
+function openSiteEditor(index: number): void {
+  editingSiteIndex = index;
+  const profile = siteProfiles[index];
+  sitePatternInput.value = profile?.hostPattern ?? "";
+  siteIntensitySelect.value = profile?.intensity ?? "";
+  sitePolicySelect.value = profile?.llmPolicy ?? "auto";
+  siteEnabledToggle.checked = profile?.enabled ?? true;
+  siteInstructions.value = profile?.instructions ?? "";
+  for (const [action, input] of actionToggles) {
+    input.checked = profile?.disabledActions.includes(action) ?? false;
+  }
+  siteBannerToggle.checked = profile?.showBanner ?? true;
+  sitePanelToggle.checked = profile?.showPanel ?? true;
+  siteWarning.classList.add("hidden");
+  siteEditor.classList.remove("hidden");
+  sitePatternInput.focus();
+}
+
+function closeSiteEditor(): void {
+  siteEditor.classList.add("hidden");
+  editingSiteIndex = -1;
+}
+
+newSiteBtn.addEventListener("click", () => openSiteEditor(-1));
+siteCancelBtn.addEventListener("click", closeSiteEditor);
+
+siteSaveBtn.addEventListener("click", async () => {
+  const profile: SiteProfile = {
+    hostPattern: normalizeHostPattern(sitePatternInput.value),
+    instructions: siteInstructions.value.trim(),
+    disabledActions: ALL_ACTIONS.filter(a => actionToggles.get(a)?.checked),
+    intensity: siteIntensitySelect.value as TransformIntensity | "",
+    showBanner: siteBannerToggle.checked,
+    showPanel: sitePanelToggle.checked,
+    llmPolicy: sitePolicySelect.value as PagePolicy | "auto",
+    enabled: siteEnabledToggle.checked,
+  };
+  if (!profile.hostPattern) {
+    siteWarning.textContent = "Enter a host pattern, e.g. github.com.";
+    siteWarning.classList.remove("hidden");
+    return;
+  }
+
+  // One profile per pattern — saving over an existing pattern replaces it
+  const clash = siteProfiles.findIndex((p, i) => i !== editingSiteIndex && p.hostPattern === profile.hostPattern);
+  if (clash !== -1) siteProfiles.splice(clash, 1);
+  const index = clash !== -1 && clash < editingSiteIndex ? editingSiteIndex - 1 : editingSiteIndex;
+  if (index === -1) siteProfiles.push(profile);
+  else siteProfiles[index] = profile;
+
+  await saveSiteProfiles("Site profile saved. Takes effect on next page load.");
+  closeSiteEditor();
+});
+
+async function saveSiteProfiles(message: string): Promise<void> {
+  try {
+    await saveSettings({ siteProfiles });
+    showStatus(message, "success");
+  } catch (e) {
+    console.error("[Predictive Browser Options] Failed to save site profiles:", e);
+    showStatus("Error saving site profiles.", "error");
+  }
+  renderSiteList();
+}
+
+// ---------------------------------------------------------------------------
+// Rule Packs
+// ---------------------------------------------------------------------------
+
+function renderPackList(): void {
+  packList.replaceChildren();
+  if (rulePacks.length === 0) {
+    packList.appendChild(emptyNote("No rule packs — create one or import a pack someone shared."));
+    return;
+  }
+
+  rulePacks.forEach((pack, index) => {
+    const item = document.createElement("div");
+    item.className = `list-item${pack.enabled ? "" : " disabled"}`;
+
+    const toggle = document.createElement("input");
+    toggle.type = "checkbox";
+    toggle.checked = pack.enabled;
+    toggle.title = "Enabled";
+    toggle.addEventListener("change", async () => {
+      pack.enabled = toggle.checked;
+      await persistRulePacks(pack.enabled ? "Pack enabled." : "Pack disabled.");
+    });
+
+    const text = document.createElement("div");
+    text.className = "grow";
+    const title = document.createElement("div");
+    title.className = "title";
+    title.textContent = pack.name;
+    const detail = document.createElement("div");
+    detail.className = "muted";
+    detail.textContent = [`${pack.rules.length} rule${pack.rules.length === 1 ? "" : "s"}`, pack.description]
+      .filter(Boolean).join(" · ");
+    text.append(title, detail);
+
+    const edit = button("Edit", "btn btn-secondary", () => openPackEditor(index));
+    const exportOne = button("Export", "btn btn-secondary", () => downloadPacks([pack], pack.name));
+    const remove = button("Delete", "btn btn-danger", async () => {
+      rulePacks.splice(index, 1);
+      await persistRulePacks("Pack deleted.");
+    });
+
+    item.append(toggle, text, edit, exportOne, remove);
+    packList.appendChild(item);
+  });
+}
+
+function openPackEditor(index: number): void {
+  editingPackIndex = index;
+  const pack = rulePacks[index];
+  packNameInput.value = pack?.name ?? "";
+  packDescriptionInput.value = pack?.description ?? "";
+  packEnabledToggle.checked = pack?.enabled ?? true;
+  packRulesInput.value = pack ? JSON.stringify(pack.rules, null, 2) : EXAMPLE_RULES;
+  packWarning.classList.add("hidden");
+  packEditor.classList.remove("hidden");
+  packNameInput.focus();
+}
+
+function closePackEditor(): void {
+  packEditor.classList.add("hidden");
+  editingPackIndex = -1;
+}
+
+newPackBtn.addEventListener("click", () => openPackEditor(-1));
+packCancelBtn.addEventListener("click", closePackEditor);
+
+packSaveBtn.addEventListener("click", async () => {
+  const name = packNameInput.value.trim();
+  if (!name) {
+    showPackWarning("Give the pack a name.");
+    return;
+  }
+
+  let rules: RulePack["rules"];
+  try {
+    // Same validation as an import, so a saved pack always exports cleanly
+    [{ rules }] = parseRulePacks(JSON.stringify({ name, rules: JSON.parse(packRulesInput.value) }));
+  } catch (e) {
+    showPackWarning(e instanceof SyntaxError ? "Rules are not valid JSON." : (e as Error).message);
+    return;
+  }
+
+  const existing = rulePacks[editingPackIndex];
+  const pack: RulePack = {
+    id: existing?.id ?? createRulePackId(),
+    name,
+    description: packDescriptionInput.value.trim() || undefined,
+    enabled: packEnabledToggle.checked,
+    rules,
+  };
+  if (existing) rulePacks[editingPackIndex] = pack;
+  else rulePacks.push(pack);
+
+  await persistRulePacks("Pack saved. Takes effect on next page load.");
+  closePackEditor();
+});
+
+importPacksBtn.addEventListener("click", () => importFileInput.click());
+
+importFileInput.addEventListener("change", async () => {
+  const file = importFileInput.files?.[0];
+  importFileInput.value = "";
+  if (!file) return;
+
+  try {
+    const imported = parseRulePacks(await file.text());
+    rulePacks.push(...imported);
+    await persistRulePacks(`Imported ${imported.length} pack${imported.length === 1 ? "" : "s"}.`);
+  } catch (e) {
+    showStatus(`Import failed: ${(e as Error).message}`, "error");
+  }
+});
+
+exportPacksBtn.addEventListener("click", () => {
+  if (rulePacks.length === 0) {
+    showStatus("No rule packs to export.", "error");
+    return;
+  }
+  downloadPacks(rulePacks, "predictive-browser-rules");
+});
+
+async function persistRulePacks(message: string): Promise<void> {
+  try {
+    await saveRulePacks(rulePacks);
+    showStatus(message, "success");
+  } catch (e) {
+    console.error("[Predictive Browser Options] Failed to save rule packs:", e);
+    showStatus("Error saving rule packs.", "error");
+  }
+  renderPackList();
+}
+
+function downloadPacks(packs: RulePack[], filename: string): void {
+  const blob = new Blob([exportRulePacks(packs)], { type: "application/json" });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = `${filename.replace(/[^\w-]+/g, "-").toLowerCase()}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+}
+
+function showPackWarning(message: string): void {
+  packWarning.textContent = message;
+  packWarning.classList.remove("hidden");
+}
+
+// ---------------------------------------------------------------------------
+// Learned Rules
+// ---------------------------------------------------------------------------
+
+function renderLearnedList(): void {
+  learnedList.replaceChildren();
+  if (learnedRules.length === 0) {
+    learnedList.appendChild(emptyNote("Nothing learned yet — rules appear after the model repeats itself on a site."));
+    return;
+  }
+
+  const domains = [...new Set(learnedRules.map(r => r.domain))].sort();
+  for (const domain of domains) {
+    const heading = document.createElement("div");
+    heading.className = "list-heading";
+    heading.textContent = domain;
+    learnedList.appendChild(heading);
+
+    for (const rule of learnedRules.filter(r => r.domain === domain)) {
+      const item = document.createElement("div");
+      item.className = `list-item${rule.revoked ? " disabled" : ""}`;
+
+      const text = document.createElement("div");
+      text.className = "grow";
+      const title = document.createElement("div");
+      title.className = "title";
+      title.textContent = `${rule.action} ${rule.textMatch ? `${rule.selector} "${rule.textMatch}"` : rule.selector}`;
+      const detail = document.createElement("div");
+      detail.className = "muted";
+      detail.textContent = [
+        `${Math.round(rule.confidence * 100)}% of ${rule.support} pages`,
+        `learned ${new Date(rule.learnedAt).toLocaleDateString()}`,
+        rule.revoked ? "revoked" : "",
+      ].filter(Boolean).join(" · ");
+      text.append(title, detail);
+
+      const toggle = rule.revoked
+        ? button("Reinstate", "btn btn-secondary", () => setRevoked(rule, false))
+        : button("Revoke", "btn btn-danger", () => setRevoked(rule, true));
+
+      item.append(text, toggle);
+      learnedList.appendChild(item);
+    }
+  }
+}
+
+async function setRevoked(rule: LearnedRule, revoked: boolean): Promise<void> {
+  rule.revoked = revoked;
+  try {
+    await saveLearnedRules(learnedRules);
+    showStatus(revoked ? "Rule revoked. Takes effect on next page load." : "Rule reinstated.", "success");
+  } catch (e) {
+    console.error("[Predictive Browser Options] Failed to save learned rules:", e);
+    showStatus("Error saving learned rules.", "error");
+  }
+  renderLearnedList();
+}
+
+// ---------------------------------------------------------------------------
+// Prompt Templates
+// ---------------------------------------------------------------------------
+
+function renderTemplateList(): void {
+  templateList.replaceChildren();
+  if (templateOverrides.length === 0) {
+    templateList.appendChild(emptyNote("No overrides — the shipped templates are used everywhere."));
+    return;
+  }
+
+  templateOverrides.forEach((override, index) => {
+    const item = document.createElement("div");
+    item.className = `list-item${override.enabled ? "" : " disabled"}`;
+
+    const text = document.createElement("div");
+    text.className = "grow";
+    const title = document.createElement("div");
+    title.className = "title";
+    title.textContent = `${TEMPLATE_LABELS[override.template]} — ${override.domain || "all sites"}`;
+    const detail = document.createElement("div");
+    detail.className = "muted";
+    detail.textContent = `${override.body.length} characters${override.enabled ? "" : " · disabled"}`;
+    text.append(title, detail);
+
+    const edit = button("Edit", "btn btn-secondary", () => openTemplateEditor(index));
+    const remove = button("Delete", "btn btn-danger", async () => {
+      templateOverrides.splice(index, 1);
+      await saveTemplates("Override deleted.");
+    });
+
+    item.append(text, edit, remove);
+    templateList.appendChild(item);
+  });
+}
+
+function openTemplateEditor(index: number): void {
+  editingIndex = index;
+  const override = templateOverrides[index];
+  templateNameSelect.value = override?.template ?? "transform";
+  templateDomainInput.value = override?.domain ?? "";
+  templateEnabledToggle.checked = override?.enabled ?? true;
+  templateBody.value = override?.body ?? DEFAULT_TEMPLATES[templateNameSelect.value as PromptTemplateName];
+  showPlaceholders();
+  templateWarning.classList.add("hidden");
+  templateEditor.classList.remove("hidden");
+  templateBody.focus();
+}
+
+function closeTemplateEditor(): void {
+  templateEditor.classList.add("hidden");
+  editingIndex = -1;
+}
+
+function showPlaceholders(): void {
+  const name = templateNameSelect.value as PromptTemplateName;
+  templatePlaceholders.replaceChildren("Placeholders: ");
+  for (const key of TEMPLATE_PLACEHOLDERS[name]) {
+    const code = document.createElement("code");
+    code.textContent = `{{${key}}}`;
+    templatePlaceholders.append(code, " ");
+  }
+}
+
+/** Placeholders the template never mentions — almost always a mistake, but allowed */
+function missingPlaceholders(name: PromptTemplateName, body: string): string[] {
+  return TEMPLATE_PLACEHOLDERS[name].filter(key => !new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`).test(body));
+}
+
+newTemplateBtn.addEventListener("click", () => openTemplateEditor(-1));
+templateCancelBtn.addEventListener("click", closeTemplateEditor);
+
+templateNameSelect.addEventListener("change", () => {
+  showPlaceholders();
+  // A fresh override starts from the default of whichever template was picked
+  if (editingIndex === -1) templateBody.value = DEFAULT_TEMPLATES[templateNameSelect.value as PromptTemplateName];
+});
+
+templateResetBtn.addEventListener("click", () => {
+  templateBody.value = DEFAULT_TEMPLATES[templateNameSelect.value as PromptTemplateName];
+});
+
+templateSaveBtn.addEventListener("click", async () => {
+  const override: PromptTemplateOverride = {
+    template: templateNameSelect.value as PromptTemplateName,
+    domain: normalizeDomain(templateDomainInput.value),
+    body: templateBody.value,
+    enabled: templateEnabledToggle.checked,
+  };
+  if (!override.body.trim()) {
+    showTemplateWarning("Template is empty.");
+    return;
+  }
+
+  // One override per template + domain — saving over an existing pair replaces it
+  const clash = templateOverrides.findIndex((o, i) =>
+    i !== editingIndex && o.template === override.template && o.domain === override.domain);
+  if (clash !== -1) templateOverrides.splice(clash, 1);
+  const index = clash !== -1 && clash < editingIndex ? editingIndex - 1 : editingIndex;
+  if (index === -1) templateOverrides.push(override);
+  else templateOverrides[index] = override;
+
+  const missing = missingPlaceholders(override.template, override.body);
+  await saveTemplates(missing.length > 0
+    ? `Saved. Note: template doesn't use ${missing.map(k => `{{${k}}}`).join(", ")}.`
+    : "Override saved.");
+  closeTemplateEditor();
+});
+
+async function saveTemplates(message: string): Promise<void> {
+  try {
+    await saveSettings({ promptTemplates: templateOverrides });
+    showStatus(message, "success");
+  } catch (e) {
+    console.error("[Predictive Browser Options] Failed to save templates:", e);
+    showStatus("Error saving templates.", "error");
+  }
+  renderTemplateList();
+}
+
+function showTemplateWarning(message: string): void {
+  templateWarning.textContent = message;
+  templateWarning.classList.remove("hidden");
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function loadSettings(): Promise<Record<string, unknown>> {
+  const stored = await chrome.storage.local.get("extensionSettings");
+  return (stored["extensionSettings"] as Record<string, unknown> | undefined) ?? {};
+}
+
+/** Merge a partial update into the stored settings and tell the service worker */
+async function saveSettings(patch: Record<string, unknown>): Promise<void> {
+  const current = await loadSettings();
+  const settings = { ...current, ...patch };
+  await chrome.storage.local.set({ extensionSettings: settings });
+  await chrome.runtime.sendMessage({ type: "SETTINGS_UPDATED", payload: settings });
+}
+
+/** "https://www.Example.com/path" → "example.com" */
+function normalizeDomain(input: string): string {
+  const trimmed = input.trim().toLowerCase();
+  if (!trimmed) return "";
+  try {
+    return new URL(trimmed.includes("://") ? trimmed : `https://${trimmed}`).hostname.replace(/^www\./, "");
+  } catch {
+    return trimmed;
+  }
+}
+
+/** Like normalizeDomain, but keeps "*" wildcards (which URL parsing would mangle) */
+function normalizeHostPattern(input: string): string {
+  const trimmed = input.trim().toLowerCase();
+  if (trimmed.startsWith("=")) return `=${normalizeDomain(trimmed.slice(1))}`;
+  return trimmed.includes("*")
+    ? trimmed.replace(/^[a-z]+:\/\//, "").replace(/[/:].*$/, "").replace(/^www\./, "")
+    : normalizeDomain(trimmed);
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function button(label: string, className: string, onClick: () => void): HTMLButtonElement {
+  const btn = document.createElement("button");
+  btn.className = className;
+  btn.textContent = label;
+  btn.addEventListener("click", onClick);
+  return btn;
+}
+
+function emptyNote(text: string): HTMLDivElement {
+  const note = document.createElement("div");
+  note.className = "list-empty";
+  note.textContent = text;
+  return note;
+}
+
+function showStatus(message: string, type: "success" | "error"): void {
+  statusDiv.textContent = message;
+  statusDiv.className = `status ${type}`;
+}
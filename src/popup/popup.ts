@@ -5,7 +5,18 @@
 interface ExtensionSettings {
   apiKey: string;
   enabled: boolean;
+  engine: string;
+  localFallback: boolean;
+  provider: string;
   model: string;
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  openaiModel: string;
+  anthropicApiKey: string;
+  anthropicModel: string;
+  auxModel: string;
+  temperature: number;
+  maxOutputTokens: number;
   intensity: string;
   enabledActions: {
     highlight: boolean;
@@ -15,12 +26,51 @@ interface ExtensionSettings {
     reorder: boolean;
   };
   removeGrayedSections: boolean;
+  streaming: boolean;
+  maxRequestsPerMinute: number;
+  maxTokensPerMinute: number;
+  maxRequestsPerDay: number;
+  maxTokensPerDay: number;
+  maxCostPerDay: number;
+  skeletonTokenBudget: number;
+  pageGuard: boolean;
+  serpMode: boolean;
+}
+
+interface LLMStatus {
+  state: string;
+  message: string;
+  retryAt?: number;
+  updatedAt: number;
+}
+
+interface UsageTotals {
+  calls: number;
+  failed: number;
+  promptTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface UsageLog {
+  days: Record<string, UsageTotals & { byDomain: Record<string, UsageTotals> }>;
 }
 
 const DEFAULT_SETTINGS: ExtensionSettings = {
   apiKey: "",
   enabled: true,
+  engine: "llm",
+  localFallback: true,
+  provider: "gemini",
   model: "gemini-2.0-flash",
+  openaiBaseUrl: "https://api.openai.com/v1",
+  openaiApiKey: "",
+  openaiModel: "gpt-4o-mini",
+  anthropicApiKey: "",
+  anthropicModel: "claude-3-5-haiku-latest",
+  auxModel: "",
+  temperature: 0.2,
+  maxOutputTokens: 2048,
   intensity: "balanced",
   enabledActions: {
     highlight: true,
@@ -30,8 +80,21 @@ const DEFAULT_SETTINGS: ExtensionSettings = {
     reorder: true,
   },
   removeGrayedSections: true,
+  streaming: true,
+  maxRequestsPerMinute: 15,
+  maxTokensPerMinute: 0,
+  maxRequestsPerDay: 1000,
+  maxTokensPerDay: 0,
+  maxCostPerDay: 0,
+  skeletonTokenBudget: 3000,
+  pageGuard: true,
+  serpMode: true,
 };
 
+const USAGE_DAYS_SHOWN = 7;
+const USAGE_DOMAINS_SHOWN = 5;
+const MAX_TEMPERATURE = 2;
+
 // ---------------------------------------------------------------------------
 // DOM Elements
 // ---------------------------------------------------------------------------
@@ -42,10 +105,38 @@ const apiKeyInput = document.getElementById("api-key") as HTMLInputElement;
 const toggleKeyBtn = document.getElementById("toggle-key") as HTMLButtonElement;
 const eyeIcon = document.getElementById("eye-icon") as HTMLSpanElement;
 const keyWarning = document.getElementById("key-warning") as HTMLDivElement;
-const modelSelect = document.getElementById("model") as HTMLSelectElement;
+const modelInput = document.getElementById("model") as HTMLInputElement;
+const engineSelect = document.getElementById("engine") as HTMLSelectElement;
+const localFallbackToggle = document.getElementById("local-fallback") as HTMLInputElement;
+const providerSelect = document.getElementById("provider") as HTMLSelectElement;
+const openaiBaseUrlInput = document.getElementById("openai-base-url") as HTMLInputElement;
+const openaiApiKeyInput = document.getElementById("openai-api-key") as HTMLInputElement;
+const openaiModelInput = document.getElementById("openai-model") as HTMLInputElement;
+const anthropicApiKeyInput = document.getElementById("anthropic-api-key") as HTMLInputElement;
+const anthropicModelInput = document.getElementById("anthropic-model") as HTMLInputElement;
+const auxModelInput = document.getElementById("aux-model") as HTMLInputElement;
+const temperatureInput = document.getElementById("temperature") as HTMLInputElement;
+const maxOutputTokensInput = document.getElementById("max-output-tokens") as HTMLInputElement;
+const modelWarning = document.getElementById("model-warning") as HTMLDivElement;
 const saveSettingsBtn = document.getElementById("save-settings") as HTMLButtonElement;
 const statusDiv = document.getElementById("status") as HTMLDivElement;
 const removeGrayedToggle = document.getElementById("remove-grayed") as HTMLInputElement;
+const streamingToggle = document.getElementById("streaming") as HTMLInputElement;
+const pageGuardToggle = document.getElementById("page-guard") as HTMLInputElement;
+const serpModeToggle = document.getElementById("serp-mode") as HTMLInputElement;
+const maxRequestsMinuteInput = document.getElementById("max-requests-minute") as HTMLInputElement;
+const maxTokensMinuteInput = document.getElementById("max-tokens-minute") as HTMLInputElement;
+const maxRequestsDayInput = document.getElementById("max-requests-day") as HTMLInputElement;
+const maxTokensDayInput = document.getElementById("max-tokens-day") as HTMLInputElement;
+const maxCostDayInput = document.getElementById("max-cost-day") as HTMLInputElement;
+const skeletonBudgetInput = document.getElementById("skeleton-budget") as HTMLInputElement;
+const llmStatusDiv = document.getElementById("llm-status") as HTMLDivElement;
+const usageTodayDiv = document.getElementById("usage-today") as HTMLDivElement;
+const usageDaysTable = document.getElementById("usage-days") as HTMLTableElement;
+const usageDomainsTable = document.getElementById("usage-domains") as HTMLTableElement;
+
+/** Model IDs each provider reported, once fetched — cleared when its credentials change */
+const providerModels: Record<string, string[]> = {};
 
 // Action checkboxes
 const actionCheckboxes: Record<string, HTMLInputElement> = {
@@ -61,7 +152,7 @@ const actionCheckboxes: Record<string, HTMLInputElement> = {
 // ---------------------------------------------------------------------------
 document.addEventListener("DOMContentLoaded", async () => {
   try {
-    const stored = await chrome.storage.local.get(["userProfile", "extensionSettings"]);
+    const stored = await chrome.storage.local.get(["userProfile", "extensionSettings", "llmStatus", "llmUsage"]);
 
     // Restore focus
     const savedFocus: string = stored["userProfile"]?.currentFocus ?? "";
@@ -77,7 +168,19 @@ document.addEventListener("DOMContentLoaded", async () => {
 
     enabledToggle.checked = settings.enabled;
     apiKeyInput.value = settings.apiKey;
-    modelSelect.value = settings.model;
+    modelInput.value = settings.model;
+    engineSelect.value = settings.engine;
+    providerSelect.value = settings.provider;
+    openaiBaseUrlInput.value = settings.openaiBaseUrl;
+    openaiApiKeyInput.value = settings.openaiApiKey;
+    openaiModelInput.value = settings.openaiModel;
+    anthropicApiKeyInput.value = settings.anthropicApiKey;
+    anthropicModelInput.value = settings.anthropicModel;
+    auxModelInput.value = settings.auxModel;
+    temperatureInput.value = String(settings.temperature);
+    maxOutputTokensInput.value = String(settings.maxOutputTokens);
+    showProviderConfig(settings.provider);
+    void loadProviderModels(settings.provider);
 
     // Set intensity radio
     const intensityRadio = document.querySelector(`input[name="intensity"][value="${settings.intensity}"]`) as HTMLInputElement | null;
@@ -90,6 +193,21 @@ document.addEventListener("DOMContentLoaded", async () => {
 
     // Set behavior toggles
     removeGrayedToggle.checked = settings.removeGrayedSections ?? true;
+    localFallbackToggle.checked = settings.localFallback ?? true;
+    streamingToggle.checked = settings.streaming ?? true;
+    pageGuardToggle.checked = settings.pageGuard ?? true;
+    serpModeToggle.checked = settings.serpMode ?? true;
+
+    // Set limits
+    maxRequestsMinuteInput.value = String(settings.maxRequestsPerMinute);
+    maxTokensMinuteInput.value = String(settings.maxTokensPerMinute);
+    maxRequestsDayInput.value = String(settings.maxRequestsPerDay);
+    maxTokensDayInput.value = String(settings.maxTokensPerDay);
+    maxCostDayInput.value = String(settings.maxCostPerDay);
+    skeletonBudgetInput.value = String(settings.skeletonTokenBudget);
+
+    showLLMStatus(stored["llmStatus"]);
+    showUsage(stored["llmUsage"], settings.maxCostPerDay);
   } catch (e) {
     console.error("[Predictive Browser Popup] Could not load settings:", e);
   }
@@ -119,6 +237,27 @@ saveFocusBtn.addEventListener("click", async () => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// Provider selection — only show the fields for the selected backend
+// ---------------------------------------------------------------------------
+providerSelect.addEventListener("change", () => {
+  showProviderConfig(providerSelect.value);
+  void loadProviderModels(providerSelect.value);
+});
+
+// A different key or server can offer different models — fetch again on next use
+for (const [input, provider] of [
+  [apiKeyInput, "gemini"],
+  [openaiBaseUrlInput, "openai"],
+  [openaiApiKeyInput, "openai"],
+  [anthropicApiKeyInput, "anthropic"],
+] as const) {
+  input.addEventListener("change", () => {
+    delete providerModels[provider];
+    void loadProviderModels(provider);
+  });
+}
+
 // ---------------------------------------------------------------------------
 // API Key visibility toggle
 // ---------------------------------------------------------------------------
@@ -142,7 +281,18 @@ saveSettingsBtn.addEventListener("click", async () => {
   const settings: ExtensionSettings = {
     apiKey: apiKeyInput.value.trim(),
     enabled: enabledToggle.checked,
-    model: modelSelect.value,
+    engine: engineSelect.value,
+    localFallback: localFallbackToggle.checked,
+    provider: providerSelect.value,
+    model: modelInput.value.trim() || DEFAULT_SETTINGS.model,
+    openaiBaseUrl: openaiBaseUrlInput.value.trim(),
+    openaiApiKey: openaiApiKeyInput.value.trim(),
+    openaiModel: openaiModelInput.value.trim(),
+    anthropicApiKey: anthropicApiKeyInput.value.trim(),
+    anthropicModel: anthropicModelInput.value.trim(),
+    auxModel: auxModelInput.value.trim(),
+    temperature: readTemperature(temperatureInput),
+    maxOutputTokens: readLimit(maxOutputTokensInput) || DEFAULT_SETTINGS.maxOutputTokens,
     intensity: intensityRadio?.value ?? "balanced",
     enabledActions: {
       highlight: actionCheckboxes.highlight.checked,
@@ -152,17 +302,28 @@ saveSettingsBtn.addEventListener("click", async () => {
       reorder: actionCheckboxes.reorder.checked,
     },
     removeGrayedSections: removeGrayedToggle.checked,
+    streaming: streamingToggle.checked,
+    maxRequestsPerMinute: readLimit(maxRequestsMinuteInput),
+    maxTokensPerMinute: readLimit(maxTokensMinuteInput),
+    maxRequestsPerDay: readLimit(maxRequestsDayInput),
+    maxTokensPerDay: readLimit(maxTokensDayInput),
+    maxCostPerDay: readAmount(maxCostDayInput),
+    skeletonTokenBudget: readLimit(skeletonBudgetInput),
+    pageGuard: pageGuardToggle.checked,
+    serpMode: serpModeToggle.checked,
   };
 
   // Validate API key (warn but don't block)
   keyWarning.classList.add("hidden");
-  if (settings.apiKey && (!settings.apiKey.startsWith("AIza") || settings.apiKey.length < 30)) {
+  if (settings.provider === "gemini" && settings.apiKey && (!settings.apiKey.startsWith("AIza") || settings.apiKey.length < 30)) {
     keyWarning.textContent = "Key doesn't look like a valid Gemini API key. Saving anyway.";
     keyWarning.classList.remove("hidden");
   }
 
   try {
-    await chrome.storage.local.set({ extensionSettings: settings });
+    // Keep fields managed elsewhere (e.g. prompt templates on the options page)
+    const stored = await chrome.storage.local.get("extensionSettings");
+    await chrome.storage.local.set({ extensionSettings: { ...stored["extensionSettings"], ...settings } });
 
     // Notify background service worker
     await chrome.runtime.sendMessage({
@@ -178,17 +339,162 @@ saveSettingsBtn.addEventListener("click", async () => {
     saveSettingsBtn.disabled = false;
     saveSettingsBtn.textContent = "Save Settings";
   }
+
+  // After saving, not before — the provider may take seconds to answer, and a
+  // popup that loses focus meanwhile closes without saving anything
+  void warnUnknownModels(settings);
+});
+
+// ---------------------------------------------------------------------------
+// Advanced settings (options page)
+// ---------------------------------------------------------------------------
+document.getElementById("open-options")?.addEventListener("click", (e) => {
+  e.preventDefault();
+  chrome.runtime.openOptionsPage();
 });
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** Model IDs are free text — check them against what the provider offers, when it tells us */
+async function warnUnknownModels(settings: ExtensionSettings): Promise<void> {
+  modelWarning.classList.add("hidden");
+  const offered = await loadProviderModels(settings.provider);
+  const unknown = [selectedModel(settings), settings.auxModel]
+    .filter(model => model && offered.length > 0 && !offered.includes(model));
+  if (unknown.length > 0) {
+    modelWarning.textContent = `Not in the provider's model list: ${unknown.join(", ")}. Saved anyway.`;
+    modelWarning.classList.remove("hidden");
+  }
+}
+
 function showStatus(message: string, type: "success" | "error"): void {
   statusDiv.textContent = message;
   statusDiv.className = `status ${type}`;
 }
 
+function showProviderConfig(provider: string): void {
+  for (const id of ["gemini", "openai", "anthropic"]) {
+    document.getElementById(`provider-${id}`)?.classList.toggle("hidden", id !== provider);
+  }
+  // The link model runs on the same provider, so it suggests the same IDs
+  auxModelInput.setAttribute("list", `${provider}-models`);
+}
+
+/**
+ * Ask the service worker which models the provider offers (using the unsaved
+ * form fields) and fill its suggestion list. Resolves to [] when the provider
+ * can't be reached or doesn't list models — the shipped suggestions stay.
+ */
+async function loadProviderModels(provider: string): Promise<string[]> {
+  if (providerModels[provider]) return providerModels[provider];
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: "LIST_MODELS",
+      payload: {
+        provider,
+        apiKey: apiKeyInput.value.trim(),
+        openaiBaseUrl: openaiBaseUrlInput.value.trim(),
+        openaiApiKey: openaiApiKeyInput.value.trim(),
+        anthropicApiKey: anthropicApiKeyInput.value.trim(),
+      },
+    }) as { models?: string[]; error?: string } | undefined;
+    const models = response?.models ?? [];
+    if (models.length === 0) return [];
+    providerModels[provider] = models;
+
+    const list = document.getElementById(`${provider}-models`) as HTMLDataListElement | null;
+    list?.replaceChildren(...models.map(model => {
+      const option = document.createElement("option");
+      option.value = model;
+      return option;
+    }));
+    return models;
+  } catch {
+    return [];
+  }
+}
+
+function selectedModel(settings: ExtensionSettings): string {
+  if (settings.provider === "openai") return settings.openaiModel;
+  if (settings.provider === "anthropic") return settings.anthropicModel;
+  return settings.model;
+}
+
+/** Show why the model is currently unavailable (rate limited, over quota, paused) */
+function showLLMStatus(status: LLMStatus | undefined): void {
+  const stillRelevant = status && status.state !== "ok" &&
+    (status.retryAt === undefined || status.retryAt > Date.now());
+  if (!stillRelevant) {
+    llmStatusDiv.classList.add("hidden");
+    return;
+  }
+  const until = status.retryAt ? ` Until ${new Date(status.retryAt).toLocaleTimeString()}.` : "";
+  llmStatusDiv.textContent = `${status.message}${until}`;
+  llmStatusDiv.classList.remove("hidden");
+}
+
+/** Today's totals, the last few days and today's busiest sites */
+function showUsage(usage: UsageLog | undefined, costCap: number): void {
+  const days = Object.entries(usage?.days ?? {}).sort(([a], [b]) => b.localeCompare(a));
+  const today = usage?.days[localDay()];
+
+  if (today) {
+    const failed = today.failed > 0 ? ` (${today.failed} failed)` : "";
+    const cap = costCap > 0 ? ` of ${formatCost(costCap)} cap` : "";
+    usageTodayDiv.textContent = `Today: ${today.calls} calls${failed} · ` +
+      `${formatTokens(today.promptTokens)} in / ${formatTokens(today.outputTokens)} out · ${formatCost(today.costUsd)}${cap}`;
+  }
+
+  fillUsageTable(usageDaysTable, days.slice(0, USAGE_DAYS_SHOWN).map(([day, totals]) => [day.slice(5), totals]));
+  const domains = Object.entries(today?.byDomain ?? {})
+    .sort(([, a], [, b]) => b.costUsd - a.costUsd || (b.promptTokens + b.outputTokens) - (a.promptTokens + a.outputTokens))
+    .slice(0, USAGE_DOMAINS_SHOWN);
+  fillUsageTable(usageDomainsTable, domains);
+}
+
+function fillUsageTable(table: HTMLTableElement, rows: [string, UsageTotals][]): void {
+  const body = table.tBodies[0];
+  body.replaceChildren();
+  for (const [label, totals] of rows) {
+    const row = body.insertRow();
+    for (const text of [label, String(totals.calls), formatTokens(totals.promptTokens + totals.outputTokens), formatCost(totals.costUsd)]) {
+      row.insertCell().textContent = text;
+    }
+  }
+  table.classList.toggle("hidden", rows.length === 0);
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? "<$0.01" : `$${usd.toFixed(2)}`;
+}
+
+/** Local date as YYYY-MM-DD — the key usage is rolled up under */
+function localDay(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function readAmount(input: HTMLInputElement): number {
+  const value = Number(input.value);
+  return Number.isFinite(value) && value > 0 ? Math.round(value * 100) / 100 : 0;
+}
+
+function readTemperature(input: HTMLInputElement): number {
+  const value = parseFloat(input.value);
+  return isNaN(value) ? DEFAULT_SETTINGS.temperature : Math.min(MAX_TEMPERATURE, Math.max(0, value));
+}
+
+function readLimit(input: HTMLInputElement): number {
+  const value = Math.floor(Number(input.value));
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
 function hideStatus(): void {
   statusDiv.className = "status hidden";
   statusDiv.textContent = "";
@@ -0,0 +1,214 @@
+// src/shared/page-classifier.ts
+// Local page-type classifier. Search results, long articles, product pages,
+// category listings, docs and forum threads each want different treatment;
+// the label picks the prompt strategy and preferred actions for the transform
+// pass and is shown in the digest panel header. Evidence comes from schema.org
+// types, og:type, URL shape and the extractor's node type distribution.
+// Shared by the service worker (classification, prompt) and the content script (labels).
+
+import type { PageClassification, PageSkeleton, PageType, SkeletonNode } from '../types/interfaces.js';
+import { hostOf } from './site-profiles.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Evidence weights — declared markup beats URL guesses beats node statistics */
+const WEIGHT_SCHEMA = 3;
+const WEIGHT_OG = 2;
+const WEIGHT_URL = 2;
+const WEIGHT_STRUCTURE = 1;
+/** Below this much evidence the page is "general" */
+const MIN_EVIDENCE = 2;
+
+const SCHEMA_TYPES: Record<string, PageType> = {
+  searchresultspage: "search",
+  article: "article", newsarticle: "article", blogposting: "article", reportage: "article",
+  opinionnewsarticle: "article", analysisnewsarticle: "article", scholarlyarticle: "article", report: "article",
+  product: "product", productgroup: "product", individualproduct: "product", vehicle: "product",
+  itemlist: "listing", collectionpage: "listing", offercatalog: "listing",
+  techarticle: "docs", apireference: "docs", softwaresourcecode: "docs", howto: "docs",
+  discussionforumposting: "forum", qapage: "forum", question: "forum", socialmediaposting: "forum",
+};
+
+const OG_TYPES: Record<string, PageType> = {
+  article: "article",
+  product: "product",
+  "og:product": "product",
+  "product.item": "product",
+  "product.group": "listing",
+};
+
+const URL_PATTERNS: [RegExp, PageType, string][] = [
+  [/\/(search|results|find)(\/|$|\?)|[?&](q|query|search_query|k)=/i, "search", "search URL"],
+  [/\/(docs?|documentation|api|reference|manual|guides?|handbook|kb|man)(\/|$)/i, "docs", "docs URL"],
+  [/\/(comments|thread|threads|topic|topics|t|questions|discussion|discussions|forum|forums)\/[^/]+/i, "forum", "thread URL"],
+  [/\/(dp|gp\/product|product|products|p|item|itm|sku)\/[^/]+/i, "product", "product URL"],
+  [/\/(category|categories|collections?|c|shop|browse|catalog|department|tag|tags)\/[^/]+/i, "listing", "category URL"],
+  [/\/(19|20)\d{2}\/\d{1,2}\/|\/(blog|news|article|articles|posts?|story|stories)\/[^/]+/i, "article", "article URL"],
+];
+
+const HOST_PATTERNS: [RegExp, PageType, string][] = [
+  [/^(www\.)?(google|bing|duckduckgo|search\.yahoo|yandex|baidu|ecosia|kagi|search\.brave)\./, "search", "search engine"],
+  [/^(docs|developer|developers|devdocs|learn|api|wiki)\./, "docs", "docs host"],
+  [/^(forum|forums|community|discuss|discourse|answers)\.|(^|\.)(reddit|stackoverflow|stackexchange|news\.ycombinator|lobste\.rs)\b/, "forum", "forum host"],
+  [/^(shop|store)\./, "listing", "shop host"],
+];
+
+/** Node-distribution thresholds */
+const ARTICLE_TEXT_LENGTH = 4000;
+const ARTICLE_TEXT_SHARE = 0.35;
+const LISTING_LINK_SHARE = 0.5;
+const LISTING_MIN_LINKS = 30;
+const DOCS_CODE_BLOCKS = 3;
+
+interface PageStrategy {
+  label: string;
+  /** Appended to the transform prompt */
+  strategy: string;
+  preferredActions: ("highlight" | "collapse" | "reorder" | "annotate" | "dim")[];
+}
+
+export const PAGE_STRATEGIES: Record<PageType, PageStrategy> = {
+  search: {
+    label: "Search results",
+    strategy: "This is a search results page. Judge each result on its own: highlight the few results that best match the user's intent, dim sponsored or off-topic results, and annotate a result when its relevance isn't obvious from the title. Don't collapse the result list itself.",
+    preferredActions: ["highlight", "dim", "annotate", "reorder"],
+  },
+  article: {
+    label: "Article",
+    strategy: "This is a long-form article. Leave the body text in place and in order: highlight the passages or headings most relevant to the user, and collapse or dim what surrounds the article (related-story rails, newsletter prompts, comment widgets). Never reorder paragraphs.",
+    preferredActions: ["highlight", "collapse", "dim"],
+  },
+  product: {
+    label: "Product",
+    strategy: "This is a single product page. Highlight the details that decide a purchase for this user (price, specs, compatibility, reviews), annotate anything that conflicts with their needs, and dim cross-sell carousels and unrelated recommendations.",
+    preferredActions: ["highlight", "annotate", "dim"],
+  },
+  listing: {
+    label: "Listing",
+    strategy: "This is a listing or category page. Treat each item as a candidate: highlight or reorder the items that match the user's intent to the top, and dim the ones that clearly don't. Keep filters and pagination visible.",
+    preferredActions: ["highlight", "reorder", "dim"],
+  },
+  docs: {
+    label: "Docs",
+    strategy: "This is a documentation page. Keep the main content and code samples intact; highlight the sections that answer the user's current task, annotate where a section is a prerequisite, and collapse unrelated sidebar navigation only when it's long.",
+    preferredActions: ["highlight", "annotate", "collapse"],
+  },
+  forum: {
+    label: "Forum thread",
+    strategy: "This is a discussion thread. Highlight the original post and the replies that actually answer it or match the user's intent, dim off-topic or low-effort replies, and annotate accepted or best answers.",
+    preferredActions: ["highlight", "dim", "annotate"],
+  },
+  general: {
+    label: "Page",
+    strategy: "No specific page type detected — apply the rules below as written.",
+    preferredActions: [],
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function classifyPage(skeleton: PageSkeleton): PageClassification {
+  // A delta pass keeps the type the whole page was classified as
+  if (skeleton.pageType) return { type: skeleton.pageType, confidence: 1, signals: [] };
+
+  const evidence = new Map<PageType, number>();
+  const signals: [PageType, string][] = [];
+  const add = (type: PageType, weight: number, signal: string): void => {
+    evidence.set(type, (evidence.get(type) ?? 0) + weight);
+    signals.push([type, signal]);
+  };
+
+  const features = skeleton.pageFeatures;
+
+  // Declared markup — strongest evidence, but count each page type once
+  const schemaHits = new Map<PageType, string>();
+  for (const name of features?.schemaTypes ?? []) {
+    const type = lookup(SCHEMA_TYPES, name.toLowerCase());
+    if (type && !schemaHits.has(type)) schemaHits.set(type, name);
+  }
+  for (const [type, name] of schemaHits) add(type, WEIGHT_SCHEMA, `schema.org ${name}`);
+
+  const ogType = features?.ogType ?? "";
+  const ogPageType = lookup(OG_TYPES, ogType);
+  if (ogPageType) add(ogPageType, WEIGHT_OG, `og:type ${ogType}`);
+
+  // URL shape
+  let path = "";
+  try {
+    const url = new URL(skeleton.url);
+    path = url.pathname + url.search;
+  } catch { /* unparseable URL — host checks only */ }
+  const host = hostOf(skeleton.url);
+  for (const [pattern, type, label] of HOST_PATTERNS) {
+    if (pattern.test(host)) add(type, WEIGHT_URL, label);
+  }
+  for (const [pattern, type, label] of URL_PATTERNS) {
+    if (pattern.test(path)) {
+      add(type, WEIGHT_URL, label);
+      break; // one shape per URL — the patterns are ordered most specific first
+    }
+  }
+
+  // Node type distribution
+  const counts = countTypes(skeleton.nodes);
+  const total = Math.max(counts.total, 1);
+  const codeBlocks = features?.codeBlocks ?? 0;
+  if (codeBlocks >= DOCS_CODE_BLOCKS) add("docs", WEIGHT_STRUCTURE, `${codeBlocks} code blocks`);
+  if ((features?.textLength ?? 0) >= ARTICLE_TEXT_LENGTH && counts.text / total >= ARTICLE_TEXT_SHARE) {
+    add("article", WEIGHT_STRUCTURE, "mostly long text");
+  }
+  if (counts.link >= LISTING_MIN_LINKS && counts.link / total >= LISTING_LINK_SHARE) {
+    add("listing", WEIGHT_STRUCTURE, "mostly links");
+  }
+
+  const ranked = [...evidence.entries()].sort((a, b) => b[1] - a[1]);
+  const [best, bestScore] = ranked[0] ?? ["general", 0];
+  if (bestScore < MIN_EVIDENCE) {
+    return { type: "general", confidence: 0, signals: signals.map(([, s]) => s) };
+  }
+
+  const sum = ranked.reduce((acc, [, score]) => acc + score, 0);
+  return {
+    type: best,
+    confidence: Math.round(bestScore / sum * 100) / 100,
+    signals: signals.filter(([type]) => type === best).map(([, s]) => s),
+  };
+}
+
+/** Prompt section for the page type, listing the preferred actions that are enabled */
+export function renderPageStrategy(classification: PageClassification, enabledActions: string[]): string {
+  const strategy = PAGE_STRATEGIES[classification.type];
+  const lines = [`PAGE TYPE: ${strategy.label}${classification.signals.length > 0 ? ` (${classification.signals.join(", ")})` : ""}`, strategy.strategy];
+  const preferred = strategy.preferredActions.filter(a => enabledActions.includes(a));
+  if (preferred.length > 0) {
+    lines.push(`Prefer these actions on this kind of page: ${preferred.map(a => `"${a}"`).join(", ")}.`);
+  }
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Page-supplied keys — don't let "constructor" and friends resolve through the prototype */
+function lookup(table: Record<string, PageType>, key: string): PageType | undefined {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
+
+function countTypes(nodes: SkeletonNode[]): { total: number; text: number; link: number } {
+  const counts = { total: 0, text: 0, link: 0 };
+  const walk = (list: SkeletonNode[]): void => {
+    for (const node of list) {
+      counts.total++;
+      if (node.type === "text") counts.text++;
+      if (node.type === "link") counts.link++;
+      walk(node.children);
+    }
+  };
+  walk(nodes);
+  return counts;
+}
@@ -0,0 +1,138 @@
+// src/shared/page-guard.ts
+// Local page classifier that decides, before any model call, what a page gets:
+// the full LLM pipeline, local rules only, or nothing. Login screens, checkout
+// flows and banking dashboards are sensitive — the model never sees them;
+// near-empty pages, form-only pages and bare internal tools aren't worth a call.
+// Runs in the content script; a site profile's llmPolicy overrides it.
+
+import type { PageGuardDecision, PageSkeleton, SiteProfile, SkeletonNode } from '../types/interfaces.js';
+import { hostOf } from './site-profiles.js';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const SENSITIVE_PATH_PATTERNS: [RegExp, string][] = [
+  [/\/(log-?in|sign-?in|log-?on|auth|oauth2?|sso|saml|password|reset-password|2fa|mfa|otp)(\/|$|\?|\.)/i, "sign-in URL"],
+  [/\/(checkout|payment|payments|pay|billing|purchase|order\/confirm)(\/|$|\?|\.)/i, "checkout URL"],
+];
+
+/** Hosts that only serve accounts, payments or banking */
+const SENSITIVE_HOST_PATTERNS: [RegExp, string][] = [
+  [/^(accounts|login|signin|auth|sso|id|secure)\./, "sign-in host"],
+  [/(^|[.-])(bank|banking|onlinebanking|netbank)([.-]|$)/, "banking host"],
+  [/^(checkout|pay|payments|billing)\./, "payment host"],
+];
+
+/** Two or more of these in the title / visible text marks a checkout or banking page */
+const SENSITIVE_KEYWORDS = [
+  "card number", "cvv", "security code", "expiration date", "billing address", "place order",
+  "payment method", "complete purchase", "account balance", "available balance", "transfer funds",
+  "routing number", "recent transactions", "statement balance",
+];
+const SENSITIVE_KEYWORD_THRESHOLD = 2;
+
+/** Below this many skeleton nodes or characters there's nothing for the model to reshape */
+const MIN_NODES = 8;
+const MIN_TEXT_LENGTH = 200;
+/** Form fields per skeleton node above which the page is essentially a form */
+const FORM_DOMINANCE_RATIO = 0.3;
+const MIN_FORM_FIELDS = 4;
+/** Internal tools with less text than this are treated as bare dashboards */
+const INTERNAL_TOOL_TEXT_LENGTH = 1500;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Classify the page. A site profile's llmPolicy wins; with the guard switched
+ * off every other page gets the full pipeline.
+ */
+export function decidePagePolicy(
+  skeleton: PageSkeleton,
+  siteProfile: SiteProfile | null,
+  guardEnabled: boolean
+): PageGuardDecision {
+  if (siteProfile?.llmPolicy && siteProfile.llmPolicy !== "auto") {
+    return { policy: siteProfile.llmPolicy, reasons: [`site profile for ${siteProfile.hostPattern}`], source: "site" };
+  }
+  if (!guardEnabled) return { policy: "llm", reasons: [], source: "classifier" };
+
+  const sensitive = sensitiveReasons(skeleton);
+  if (sensitive.length > 0) return { policy: "skip", reasons: sensitive, source: "classifier" };
+
+  const lowValue = lowValueReasons(skeleton);
+  if (lowValue.length > 0) return { policy: "rules_only", reasons: lowValue, source: "classifier" };
+
+  return { policy: "llm", reasons: [], source: "classifier" };
+}
+
+// ---------------------------------------------------------------------------
+// Signals
+// ---------------------------------------------------------------------------
+
+function sensitiveReasons(skeleton: PageSkeleton): string[] {
+  const reasons: string[] = [];
+  const features = skeleton.pageFeatures;
+
+  if (features && features.passwordInputs > 0) reasons.push("password field");
+  if (features && features.paymentInputs > 0) reasons.push("payment fields");
+
+  let path = "";
+  try {
+    const url = new URL(skeleton.url);
+    path = url.pathname + url.search;
+  } catch { /* unparseable URL — host checks only */ }
+  for (const [pattern, label] of SENSITIVE_PATH_PATTERNS) {
+    if (pattern.test(path)) reasons.push(label);
+  }
+  const host = hostOf(skeleton.url);
+  for (const [pattern, label] of SENSITIVE_HOST_PATTERNS) {
+    if (pattern.test(host)) reasons.push(label);
+  }
+
+  const text = [skeleton.title, ...collectText(skeleton.nodes)].join(" ").toLowerCase();
+  const keywords = SENSITIVE_KEYWORDS.filter(k => text.includes(k));
+  if (keywords.length >= SENSITIVE_KEYWORD_THRESHOLD) reasons.push(`payment/banking terms (${keywords.slice(0, 3).join(", ")})`);
+
+  return reasons;
+}
+
+function lowValueReasons(skeleton: PageSkeleton): string[] {
+  const reasons: string[] = [];
+  const features = skeleton.pageFeatures;
+  const nodeCount = countNodes(skeleton.nodes);
+
+  if (nodeCount < MIN_NODES) reasons.push(`only ${nodeCount} content nodes`);
+  if (features && features.textLength < MIN_TEXT_LENGTH) reasons.push("almost no text");
+  if (features && features.formFields >= MIN_FORM_FIELDS && features.formFields / Math.max(nodeCount, 1) > FORM_DOMINANCE_RATIO) {
+    reasons.push(`mostly a form (${features.formFields} fields)`);
+  }
+  if (isInternalHost(hostOf(skeleton.url)) && (features?.textLength ?? 0) < INTERNAL_TOOL_TEXT_LENGTH) {
+    reasons.push("internal tool");
+  }
+
+  return reasons;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** localhost, private IPv4 ranges and intranet-style TLDs */
+function isInternalHost(host: string): boolean {
+  return host === "localhost"
+    || /^(127|10)\.\d+\.\d+\.\d+$/.test(host)
+    || /^192\.168\.\d+\.\d+$/.test(host)
+    || /^172\.(1[6-9]|2\d|3[01])\.\d+\.\d+$/.test(host)
+    || /\.(local|internal|intranet|corp|lan|test)$/.test(host);
+}
+
+function countNodes(nodes: SkeletonNode[]): number {
+  return nodes.reduce((sum, node) => sum + 1 + countNodes(node.children), 0);
+}
+
+function collectText(nodes: SkeletonNode[]): string[] {
+  return nodes.flatMap(node => [node.textPreview, ...collectText(node.children)]);
+}
@@ -0,0 +1,163 @@
+// src/shared/rule-packs.ts
+// Storage and JSON exchange format for local rule packs. Packs are stored
+// under their own key (not in extensionSettings — they can get large) and
+// shared as a small versioned JSON document. Used by the options page
+// (import/export, editing) and the content script (evaluation).
+// Rules learned by the service worker live alongside them under "learnedRules".
+
+import type { LearnedRule, LocalRule, RulePack } from '../types/interfaces.js';
+import { ALL_ACTIONS } from './site-profiles.js';
+
+export const RULE_PACKS_STORAGE_KEY = "rulePacks";
+export const LEARNED_RULES_STORAGE_KEY = "learnedRules";
+export const LEARNED_PACK_ID = "learned";
+
+const EXPORT_FORMAT = "predictive-browser-rules";
+const EXPORT_VERSION = 1;
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+export async function loadRulePacks(): Promise<RulePack[]> {
+  const stored = await chrome.storage.local.get(RULE_PACKS_STORAGE_KEY);
+  return (stored[RULE_PACKS_STORAGE_KEY] as RulePack[] | undefined) ?? [];
+}
+
+export async function saveRulePacks(packs: RulePack[]): Promise<void> {
+  await chrome.storage.local.set({ [RULE_PACKS_STORAGE_KEY]: packs });
+}
+
+export async function loadLearnedRules(): Promise<LearnedRule[]> {
+  const stored = await chrome.storage.local.get(LEARNED_RULES_STORAGE_KEY);
+  return (stored[LEARNED_RULES_STORAGE_KEY] as LearnedRule[] | undefined) ?? [];
+}
+
+export async function saveLearnedRules(rules: LearnedRule[]): Promise<void> {
+  await chrome.storage.local.set({ [LEARNED_RULES_STORAGE_KEY]: rules });
+}
+
+/** Learned rules as a pack the rule engine can evaluate — revoked ones left out */
+export function learnedRulesPack(rules: LearnedRule[]): RulePack {
+  return {
+    id: LEARNED_PACK_ID,
+    name: "Learned",
+    enabled: true,
+    rules: rules
+      .filter(r => !r.revoked)
+      // Learned on one exact host — a rule from example.com says nothing about docs.example.com
+      .map(r => ({ hostPattern: `=${r.domain}`, selector: r.selector, textMatch: r.textMatch, action: r.action })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Import / Export
+// ---------------------------------------------------------------------------
+
+/** Serialize packs as a shareable document */
+export function exportRulePacks(packs: RulePack[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, packs }, null, 2);
+}
+
+/**
+ * Parse an exported document, a bare array of packs, or a single pack.
+ * Throws an Error naming the first problem found; imported packs get fresh ids.
+ */
+export function parseRulePacks(text: string): RulePack[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not valid JSON.");
+  }
+
+  let packs: unknown[];
+  if (Array.isArray(data)) {
+    packs = data;
+  } else if (isObject(data) && Array.isArray(data["packs"])) {
+    if (data["format"] !== undefined && data["format"] !== EXPORT_FORMAT) {
+      throw new Error(`Unknown format "${String(data["format"])}".`);
+    }
+    if (typeof data["version"] === "number" && data["version"] > EXPORT_VERSION) {
+      throw new Error(`Rule file version ${data["version"]} is newer than this extension supports.`);
+    }
+    packs = data["packs"];
+  } else if (isObject(data) && Array.isArray(data["rules"])) {
+    packs = [data];
+  } else {
+    throw new Error("Expected a rule pack, an array of packs, or an exported rules file.");
+  }
+
+  return packs.map((pack, i) => parsePack(pack, `Pack ${i + 1}`));
+}
+
+function parsePack(value: unknown, label: string): RulePack {
+  if (!isObject(value)) throw new Error(`${label}: not an object.`);
+  const name = typeof value["name"] === "string" && value["name"].trim() ? value["name"].trim() : label;
+  if (!Array.isArray(value["rules"])) throw new Error(`${name}: missing "rules" array.`);
+
+  return {
+    id: createRulePackId(),
+    name,
+    description: typeof value["description"] === "string" ? value["description"] : undefined,
+    enabled: value["enabled"] !== false,
+    rules: value["rules"].map((rule, i) => parseRule(rule, `${name}, rule ${i + 1}`)),
+  };
+}
+
+function parseRule(value: unknown, label: string): LocalRule {
+  if (!isObject(value)) throw new Error(`${label}: not an object.`);
+
+  const hostPattern = optionalString(value, "hostPattern", label)?.trim();
+  if (!hostPattern) throw new Error(`${label}: "hostPattern" is required (use "*" for every site).`);
+
+  const action = value["action"];
+  if (!ALL_ACTIONS.includes(action as LocalRule["action"])) {
+    throw new Error(`${label}: "action" must be one of ${ALL_ACTIONS.join(", ")}.`);
+  }
+
+  const selector = optionalString(value, "selector", label)?.trim() || undefined;
+  const textMatch = optionalString(value, "textMatch", label)?.trim() || undefined;
+  if (!selector && !textMatch) throw new Error(`${label}: needs a "selector", a "textMatch", or both.`);
+  if (selector && !isValidSelector(selector)) throw new Error(`${label}: invalid CSS selector "${selector}".`);
+
+  const annotation = optionalString(value, "annotation", label)?.trim() || undefined;
+  if (action === "annotate" && !annotation) throw new Error(`${label}: "annotate" rules need an "annotation".`);
+
+  return {
+    hostPattern,
+    selector,
+    textMatch,
+    action: action as LocalRule["action"],
+    annotation,
+    position: optionalString(value, "position", label),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function createRulePackId(): string {
+  return `pack-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(obj: Record<string, unknown>, key: string, label: string): string | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") throw new Error(`${label}: "${key}" must be a string.`);
+  return value;
+}
@@ -0,0 +1,74 @@
+// src/shared/site-profiles.ts
+// Per-site customization: extra prompt instructions, actions that must never
+// be used, an intensity override and banner/panel visibility, matched by host
+// pattern. Shared by the service worker (prompting, validation) and the content
+// script (applying transforms, page chrome) so both sides agree on the rules.
+
+import type { ExtensionSettings, SiteProfile, TransformAction } from '../types/interfaces.js';
+
+export const ALL_ACTIONS: TransformAction[] = ["highlight", "collapse", "reorder", "annotate", "dim"];
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/** Lowercased hostname without a leading "www.", or "" for unparseable URLs */
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Host patterns:
+ *   "github.com"     — github.com and any subdomain
+ *   "=github.com"    — github.com only
+ *   "*.github.io"    — subdomains only
+ *   "news.*"         — "*" matches any run of characters within the host
+ */
+export function matchesHostPattern(host: string, pattern: string): boolean {
+  const p = pattern.trim().toLowerCase().replace(/^www\./, '');
+  if (!p || !host) return false;
+  if (p.startsWith('=')) return host === p.slice(1).replace(/^www\./, '');
+  if (!p.includes('*')) return host === p || host.endsWith(`.${p}`);
+
+  const source = p.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(host);
+}
+
+/** Patterns with fewer wildcards and more literal characters are more specific */
+function specificity(pattern: string): number {
+  const wildcards = (pattern.match(/\*/g) ?? []).length;
+  return pattern.length - wildcards * 100;
+}
+
+/** The most specific enabled profile whose pattern matches the page, if any */
+export function findSiteProfile(url: string, profiles: SiteProfile[]): SiteProfile | null {
+  const host = hostOf(url);
+  return profiles
+    .filter(p => p.enabled && matchesHostPattern(host, p.hostPattern))
+    .sort((a, b) => specificity(b.hostPattern) - specificity(a.hostPattern))[0] ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Effective Settings
+// ---------------------------------------------------------------------------
+
+/** Settings with the profile's action and intensity overrides applied */
+export function applySiteProfile(settings: ExtensionSettings, profile: SiteProfile | null): ExtensionSettings {
+  if (!profile) return settings;
+  const enabledActions = { ...settings.enabledActions };
+  for (const action of profile.disabledActions) enabledActions[action] = false;
+  return {
+    ...settings,
+    enabledActions,
+    intensity: profile.intensity || settings.intensity,
+  };
+}
+
+/** True when the profile forbids this action on its sites */
+export function isActionAllowed(profile: SiteProfile | null, action: TransformAction): boolean {
+  return !profile || !profile.disabledActions.includes(action);
+}
@@ -9,6 +9,19 @@
 // Producer: Session 1 (Extractor) | Consumer: Session 2 (LLM Engine)
 // ---------------------------------------------------------------------------
 
+/** Where a node sat on the page at extraction time */
+export interface NodeLayout {
+  /** Bounding box in document coordinates (px) */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Share of the element's area inside the viewport (0–1) */
+  visibleFraction: number;
+  /** Computed font size (px) */
+  fontSize: number;
+}
+
 export interface SkeletonNode {
   /** Unique ID assigned during extraction (e.g., "node-0", "node-1") */
   id: string;
@@ -28,6 +41,16 @@ export interface SkeletonNode {
   href?: string;
   /** alt text if it's an image */
   alt?: string;
+  /** Element starts within the first viewport at extraction time */
+  aboveFold?: boolean;
+  /** Bounding box, on-screen share and font size — the extractor spends its node budget on prominent content */
+  layout?: NodeLayout;
+  /** Up to 3 hand-written-looking class names (generated/hashed ones dropped), sorted — for cross-page fingerprints */
+  classList?: string[];
+  /** Lexical relevance to the user's focus, topics and search query — share of the page's best match (0–1). Set by the service worker */
+  localScore?: number;
+  /** The BM25 score behind localScore — comparable across pages, where the share isn't */
+  rawLocalScore?: number;
   /** Child nodes */
   children: SkeletonNode[];
 }
@@ -43,6 +66,41 @@ export interface PageSkeleton {
   nodes: SkeletonNode[];
   /** Timestamp of extraction */
   extractedAt: number;
+  /** Viewport size (px) at extraction — the frame of reference for node layouts */
+  viewport?: { width: number; height: number };
+  /** Whole-page signals the page guard and page-type classifier use (the skeleton itself drops form inputs) */
+  pageFeatures?: PageFeatures;
+  /** Node ids the content script already handled with learned rules */
+  learnedNodeIds?: string[];
+  /** Set on delta skeletons: what the page's first pass classified it as */
+  pageType?: PageType;
+}
+
+export interface PageFeatures {
+  passwordInputs: number;
+  /** Inputs that look like card / bank details (cc-* autocomplete, "cvv", "iban", ...) */
+  paymentInputs: number;
+  /** Visible text-entry fields, selects and textareas */
+  formFields: number;
+  /** Characters of visible body text */
+  textLength: number;
+  /** schema.org types declared in JSON-LD or microdata ("Article", "Product", ...) */
+  schemaTypes: string[];
+  /** og:type meta value, lowercased ("article", "product", "website") or "" */
+  ogType: string;
+  /** <pre> blocks — code samples mark documentation */
+  codeBlocks: number;
+}
+
+/** What kind of page this is — selects the prompt strategy and preferred actions */
+export type PageType = "search" | "article" | "product" | "listing" | "docs" | "forum" | "general";
+
+export interface PageClassification {
+  type: PageType;
+  /** Winning type's share of all evidence (0–1) */
+  confidence: number;
+  /** Human-readable evidence, e.g. "schema.org NewsArticle", "/docs/ URL" */
+  signals: string[];
 }
 
 // ---------------------------------------------------------------------------
@@ -76,6 +134,16 @@ export interface TransformResponse {
   inferredIntent: string;
   /** 2-3 sentence digest of the most relevant content on this page, in natural language */
   digest?: string;
+  /** Where this response came from: a live model call, the offline engine, or the transform cache */
+  source?: "llm" | "local" | "cache";
+  /** Set when the LLM is degraded (rate limited, over quota, circuit open) so the page can say why */
+  llmStatus?: LLMStatus;
+  /** Prompt template version that produced this response (LLM responses only) */
+  templateVersion?: string;
+  /** Non-zero SkeletonNode.localScore values by node id, computed for this page view */
+  nodeScores?: Record<string, number>;
+  /** Page type the local classifier assigned — shown in the digest panel header */
+  pageType?: PageType;
 }
 
 // ---------------------------------------------------------------------------
@@ -107,16 +175,74 @@ export interface SkeletonMessage {
   payload: PageSkeleton;
 }
 
+/**
+ * Content script → Background: "These subtrees appeared after the first pass"
+ * (infinite scroll, lazy comments). Answered with TRANSFORMS_READY for just these nodes.
+ */
+export interface SkeletonDeltaMessage {
+  type: "SKELETON_DELTA";
+  payload: {
+    url: string;
+    title: string;
+    /** Page-level context from the first pass, so the new subtrees aren't classified on their own */
+    metaDescription: string;
+    pageFeatures?: PageFeatures;
+    pageType?: PageType;
+    /** New subtrees only — ids continue from the page's full extraction */
+    nodes: SkeletonNode[];
+    /** What the page's first pass inferred the user wants here */
+    inferredIntent: string;
+    /** Node ids the content script already handled with learned rules */
+    learnedNodeIds: string[];
+  };
+}
+
 /** Background → Content script: "Here are your transforms" */
 export interface TransformMessage {
   type: "TRANSFORMS_READY";
   payload: TransformResponse;
 }
 
+/** Streamed slice of a TransformResponse — transforms completed so far plus partial text */
+export interface PartialTransformUpdate {
+  /** Transforms completed since the previous update */
+  transforms: TransformInstruction[];
+  /** Latest (possibly partial) inferred intent */
+  inferredIntent?: string;
+  /** Latest (possibly partial) digest */
+  digest?: string;
+}
+
+/** Background → Content script (over a port): "Here are the transforms parsed so far" */
+export interface TransformPartialMessage {
+  type: "TRANSFORMS_PARTIAL";
+  payload: PartialTransformUpdate;
+}
+
+/** Name of the runtime port the content script opens to receive streamed transforms */
+export const TRANSFORM_PORT_NAME = "pb-transforms";
+
+/** DOM event the page-world history hook fires on pushState / replaceState */
+export const ROUTE_CHANGE_EVENT = "pb:route-change";
+
+/** Background → Content script: the tab's URL changed without a document load (SPA route change) */
+export interface RouteChangedMessage {
+  type: "ROUTE_CHANGED";
+  payload: { url: string };
+}
+
+/** Name of the manifest command (keyboard shortcut) that flips between the original and predicted page */
+export const TOGGLE_VIEW_COMMAND = "toggle-original-view";
+
+/** Background → Content script: the toggle-original-view shortcut was pressed in this tab */
+export interface ToggleOriginalViewMessage {
+  type: "TOGGLE_ORIGINAL_VIEW";
+}
+
 /** Background → Content script: "Something went wrong" */
 export interface ErrorMessage {
   type: "TRANSFORM_ERROR";
-  payload: { message: string };
+  payload: { message: string; status?: LLMStatus };
 }
 
 // ---------------------------------------------------------------------------
@@ -151,6 +277,8 @@ export interface PageVisitSignal {
   engagements: EngagementSignal[];
   /** Which transforms were applied to this page */
   appliedTransforms: { selector: string; action: TransformAction }[];
+  /** Prompt template version the applied transforms came from, if an LLM produced them */
+  templateVersion?: string;
   /** Timestamp when the page was first loaded */
   visitedAt: number;
 }
@@ -161,6 +289,31 @@ export interface PageSignalsMessage {
   payload: PageVisitSignal;
 }
 
+/** Content → Background: the page guard kept the model off this page (logged under "pageGuardLog") */
+export interface PageGuardMessage {
+  type: "PAGE_GUARD_DECISION";
+  payload: { url: string; decision: PageGuardDecision };
+}
+
+/** One organic result scraped from a search engine results page */
+export interface SerpResult {
+  /** Stamped on the result element as data-pb-serp */
+  id: string;
+  selector: string;
+  title: string;
+  /** Destination URL, unwrapped from the engine's redirect */
+  url: string;
+  snippet: string;
+  /** 0-based position in the engine's own ranking */
+  rank: number;
+}
+
+/** Content → Background: results extracted from a SERP, answered with TRANSFORMS_READY */
+export interface SerpResultsMessage {
+  type: "SERP_RESULTS";
+  payload: { url: string; results: SerpResult[] };
+}
+
 /** Content → Background: real-time engagement event */
 export interface EngagementEventMessage {
   type: "ENGAGEMENT_EVENT";
@@ -186,6 +339,8 @@ export interface DomainProfile {
   lastVisited: number;
   /** Top topics associated with this domain */
   topics: string[];
+  /** Visits left within seconds without scrolling (absent on profiles stored before it was tracked) */
+  bounceCount?: number;
 }
 
 export interface BrowsingSession {
@@ -212,6 +367,8 @@ export interface TransformFeedback {
   action: TransformAction;
   appliedCount: number;
   engagedCount: number;
+  /** Same counts split by prompt template version, to compare prompt changes */
+  byTemplateVersion?: Record<string, { appliedCount: number; engagedCount: number }>;
 }
 
 export interface SignalStore {
@@ -238,13 +395,131 @@ export interface EnhancedUserProfile extends UserProfile {
 // Interface Contract 7: Extension Settings
 // ---------------------------------------------------------------------------
 
-export type GeminiModel = "gemini-2.0-flash" | "gemini-2.0-flash-lite" | "gemini-1.5-pro";
 export type TransformIntensity = "conservative" | "balanced" | "aggressive";
+/** Which LLM backend the engine talks to. "openai" covers any OpenAI-compatible server. */
+export type LLMProviderType = "gemini" | "openai" | "anthropic";
+/** "llm" calls the configured provider; "local" uses the offline heuristic engine only */
+export type TransformEngine = "llm" | "local";
+
+export type PromptTemplateName = "transform" | "linkSelect" | "linkSummary";
+
+/**
+ * What a page gets: "llm" — the full pipeline; "rules_only" — local rule packs,
+ * no model call; "skip" — the extension leaves the page alone.
+ */
+export type PagePolicy = "llm" | "rules_only" | "skip";
+
+/** The page guard's verdict for one page view, with the reasons it was reached */
+export interface PageGuardDecision {
+  policy: PagePolicy;
+  reasons: string[];
+  /** "site" when a site profile forced the policy */
+  source: "classifier" | "site";
+}
+
+/** One page guard decision, persisted as "pageGuardLog" and listed on the options page */
+export interface PageGuardLogEntry extends PageGuardDecision {
+  /** Host only — the log shouldn't keep full URLs of login or banking pages */
+  host: string;
+  at: number;
+}
+
+/** User-edited prompt template, edited in the options page */
+export interface PromptTemplateOverride {
+  template: PromptTemplateName;
+  /** Domain this override applies to (subdomains included); "" = every site */
+  domain: string;
+  body: string;
+  enabled: boolean;
+}
+
+/** Per-site customization, edited in the options page */
+export interface SiteProfile {
+  /** "github.com" (plus subdomains), "*.github.io" (subdomains only), "news.*" */
+  hostPattern: string;
+  /** Extra instructions appended to the prompt on matching sites */
+  instructions: string;
+  /** Actions never used on matching sites */
+  disabledActions: TransformAction[];
+  /** Overrides the global intensity; "" keeps it */
+  intensity: TransformIntensity | "";
+  showBanner: boolean;
+  showPanel: boolean;
+  /** Forces the page guard's policy on matching sites; "auto" (or unset) lets it classify */
+  llmPolicy?: PagePolicy | "auto";
+  enabled: boolean;
+}
+
+/**
+ * Deterministic transform applied by the content script without the model.
+ * Targets elements by CSS selector, by visible text, or both (selector narrowed by text).
+ */
+export interface LocalRule {
+  /** Same syntax as SiteProfile.hostPattern; "*" matches every site */
+  hostPattern: string;
+  selector?: string;
+  /** Case-insensitive substring of the element's text */
+  textMatch?: string;
+  action: TransformAction;
+  /** Required for "annotate" */
+  annotation?: string;
+  /** For "reorder" — same as TransformInstruction.position */
+  position?: string;
+}
+
+/** Named, shareable set of rules — stored under "rulePacks", imported/exported as JSON */
+export interface RulePack {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  rules: LocalRule[];
+}
+
+/**
+ * Rule distilled from repeated model answers on one domain — stored under
+ * "learnedRules", applied like a LocalRule, and revocable from the options page.
+ */
+export interface LearnedRule {
+  id: string;
+  domain: string;
+  /** Cross-page identity of the element: tag + stable classes, or tag + normalized text */
+  fingerprint: string;
+  selector: string;
+  textMatch?: string;
+  action: TransformAction;
+  /** Share of the pages containing the element on which the model chose this action */
+  confidence: number;
+  /** Pages containing the element when the rule was promoted */
+  support: number;
+  learnedAt: number;
+  /** Revoked rules are kept so the same pattern isn't learned again */
+  revoked: boolean;
+}
 
 export interface ExtensionSettings {
+  /** Gemini API key */
   apiKey: string;
   enabled: boolean;
-  model: GeminiModel;
+  engine: TransformEngine;
+  /** When the LLM is unconfigured or unreachable, fall back to the offline heuristic engine */
+  localFallback: boolean;
+  provider: LLMProviderType;
+  /** Gemini model ID — any ID the API accepts, e.g. "gemini-2.0-flash" */
+  model: string;
+  /** Base URL of an OpenAI-compatible server, e.g. "http://localhost:11434/v1" for Ollama */
+  openaiBaseUrl: string;
+  /** Optional for local servers that run without auth */
+  openaiApiKey: string;
+  openaiModel: string;
+  anthropicApiKey: string;
+  anthropicModel: string;
+  /** Model on the selected provider for the cheaper link selection / summary passes; "" = same as the main model */
+  auxModel: string;
+  /** Sampling temperature (0–2; Anthropic caps at 1) */
+  temperature: number;
+  /** Upper bound on tokens the model may produce per call */
+  maxOutputTokens: number;
   intensity: TransformIntensity;
   enabledActions: {
     highlight: boolean;
@@ -255,12 +530,42 @@ export interface ExtensionSettings {
   };
   /** When true, dimmed sections are fully collapsed/removed. When false, only greyed out. Default: true */
   removeGrayedSections: boolean;
+  /** Stream transforms onto the page while the model is still answering */
+  streaming: boolean;
+  /** Request/token budgets enforced before every LLM call. 0 = unlimited */
+  maxRequestsPerMinute: number;
+  maxTokensPerMinute: number;
+  maxRequestsPerDay: number;
+  maxTokensPerDay: number;
+  /** Estimated USD spend per day; once reached the engine runs offline until midnight. 0 = no cap */
+  maxCostPerDay: number;
+  /** Skeleton pages larger than this (estimated tokens) are pruned before prompting. 0 = never prune */
+  skeletonTokenBudget: number;
+  /** Per-domain / global prompt overrides; the shipped templates are used where none match */
+  promptTemplates: PromptTemplateOverride[];
+  /** Site profiles matched by host pattern; the most specific enabled match applies */
+  siteProfiles: SiteProfile[];
+  /** Classify pages locally and keep the model off login, checkout, banking and near-empty pages */
+  pageGuard: boolean;
+  /** On Google / Bing / DuckDuckGo result pages, re-rank the results locally instead of the generic pass */
+  serpMode: boolean;
 }
 
 export const DEFAULT_SETTINGS: ExtensionSettings = {
   apiKey: "",
   enabled: true,
+  engine: "llm",
+  localFallback: true,
+  provider: "gemini",
   model: "gemini-2.0-flash",
+  openaiBaseUrl: "https://api.openai.com/v1",
+  openaiApiKey: "",
+  openaiModel: "gpt-4o-mini",
+  anthropicApiKey: "",
+  anthropicModel: "claude-3-5-haiku-latest",
+  auxModel: "",
+  temperature: 0.2,
+  maxOutputTokens: 2048,
   intensity: "balanced",
   enabledActions: {
     highlight: true,
@@ -270,14 +575,51 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
     reorder: true,
   },
   removeGrayedSections: true,
+  streaming: true,
+  maxRequestsPerMinute: 15,
+  maxTokensPerMinute: 0,
+  maxRequestsPerDay: 1000,
+  maxTokensPerDay: 0,
+  maxCostPerDay: 0,
+  skeletonTokenBudget: 3000,
+  promptTemplates: [],
+  siteProfiles: [],
+  pageGuard: true,
+  serpMode: true,
 };
 
+/** "config_error": the provider rejected the request itself (bad key, unknown model) — fix settings, retrying won't help */
+export type LLMStatusState = "ok" | "retrying" | "rate_limited" | "quota_exceeded" | "circuit_open" | "config_error" | "error";
+
+/** Health of the LLM backend — persisted as "llmStatus" so the popup can show it */
+export interface LLMStatus {
+  state: LLMStatusState;
+  /** Human-readable explanation */
+  message: string;
+  /** When calls are expected to work again, if known */
+  retryAt?: number;
+  updatedAt: number;
+}
+
 /** Popup → Background: "Settings have been updated" */
 export interface SettingsUpdatedMessage {
   type: "SETTINGS_UPDATED";
   payload: ExtensionSettings;
 }
 
+/** Popup → Background: "Which models does the provider offer?" — unsaved form fields override stored settings */
+export interface ListModelsMessage {
+  type: "LIST_MODELS";
+  payload: Partial<ExtensionSettings>;
+}
+
+/** Background → Popup: model IDs, empty (with `error`) when the provider couldn't be asked */
+export interface ModelsListedMessage {
+  type: "MODELS_LISTED";
+  models: string[];
+  error?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Interface Contract 8: Link Previews (Second Pass)
 // ---------------------------------------------------------------------------
@@ -311,9 +653,16 @@ export interface LinkPreviewMessage {
 
 export type ExtensionMessage =
   | SkeletonMessage
+  | SkeletonDeltaMessage
   | TransformMessage
+  | TransformPartialMessage
   | ErrorMessage
   | PageSignalsMessage
   | EngagementEventMessage
+  | PageGuardMessage
+  | SerpResultsMessage
+  | RouteChangedMessage
+  | ToggleOriginalViewMessage
   | LinkPreviewMessage
-  | SettingsUpdatedMessage;
+  | SettingsUpdatedMessage
+  | ListModelsMessage;